@@ -0,0 +1,17 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "GAMAY - ASL Trainer",
+    short_name: "GAMAY",
+    description: "ASL - Language Translator",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#7c3aed",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" }
+    ]
+  };
+}
@@ -1,18 +1,37 @@
 "use client";
 
 import React, { useRef, useState, useCallback, useEffect, useMemo } from "react";
-import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+import type { HandLandmarker } from "@mediapipe/tasks-vision";
 import {
   Moon, Sun, Info, ScanFace, Activity, Lock, RefreshCcw,
   Settings2, Trash2, Volume2, VolumeX, Brain, List, Search,
-  Mic, MicOff, Database, Plus, Save, Cpu, Layers, Delete, X
+  Mic, MicOff, Database, Plus, Save, Cpu, Layers, Delete, X,
+  Circle, CircleHelp, Square, Play, Spline, Move, Users, Images, Pencil, TriangleAlert, ChartColumn
 } from "lucide-react";
+import {
+  type FrameInfo, type HandLabel, type Landmark, type LandmarkSession, type Sample, type SessionPlayer,
+  type MotionTemplate, type SampleOutlier, type SessionRecorder, type TrainingSample, type ValidationReport,
+  type ValidationStrategy, type BenchmarkResult, type Classifier, type ClassifierConfig, type ClassifierKind, type DistanceMetric,
+  type BodyAnchors, type BodyTracking, type LocationIndex, type SignLocation, indexLocations, locateHand, withLocationZones,
+  BUILTIN_MOTION_TEMPLATES, BUILTIN_VOCABULARY, createVocabularyTracker, describeWord, createGeometricRecognizer, crossValidate, findOutliers, NO_PREDICTION, createSessionPlayer, createSessionRecorder,
+  benchmarkClassifiers, CLASSIFIER_LABELS, createClassifierRecognizer, DEFAULT_CLASSIFIER_CONFIG, MIN_TRAINING_SAMPLES, trainClassifier,
+  type RejectionCalibration, calibrateRejection, DEFAULT_STRICTNESS, UNKNOWN_LABEL, withRejection,
+  type PredictionSource, createEnsemble, GEOMETRIC_LABELS,
+  type AugmentationOptions, augmentSamples, DEFAULT_AUGMENTATION_OPTIONS,
+  BASELINE_LABELS, BASELINE_VERSION, createBaselineDataset,
+  type CaptureRejection, type Coverage, assessCoverage, CAPTURE_COUNTDOWN_SECONDS, CAPTURE_STEPS, createCaptureQualityFilter,
+  type CalibrationFrame, type CalibrationPose, type CalibrationResult, type HandCalibration, ALPHABET_RULES, CALIBRATION_STEPS, deriveCalibration,
+  createStabilizer, createTrajectoryTracker, createTransitionGate, DATASET_FORMAT_VERSION, mergeSamples, parseDataset, parseSession, serializeDataset, serializeSession, toFeatureVector,
+  type SmoothingMethod, type SmoothingSettings, DEFAULT_SMOOTHING_SETTINGS
+} from "@/lib/recognition";
+import {
+  type HandFrame, type PipelineConfig, type WorkerRequest, type WorkerResponse,
+  createBodyTracker, createFrameProcessor, createHandLandmarker, createLandmarkerWorker, detectHands, supportsWorkerDetection
+} from "@/lib/landmarker";
+import { type ProfileStore, type ProfileSummary, openProfileStore, supportsProfileStore } from "@/lib/profiles";
 
 // --- Types ---
 
-interface Landmark { x: number; y: number; z: number; }
-interface Sample { label: string; landmarks: Landmark[]; }
-interface TrainingSample { label: string; vector: number[]; }
 interface CameraSettings { brightness: number; contrast: number; saturation: number; }
 interface GestureLibraryItem {
   emoji: string;
@@ -30,6 +49,9 @@ interface VideoStageProps {
   isScanning: boolean;
   status: string; // Added status prop
   verificationProgress: number; // New prop for lock-in progress
+  isReplaying: boolean; // Frames come from a recorded session, not the webcam
+  isMoving: boolean; // Hand is travelling between signs; frames aren't being voted on
+  isUnknown: boolean; // Hand shape doesn't match any trained sign closely enough
 }
 
 // --- Inline UI Components ---
@@ -147,6 +169,11 @@ const SignImage = ({ url, alt, emoji, className }: { url?: string, alt: string,
 };
 
 // --- GESTURE LIBRARY ---
+const WORD_EMOJI: Record<string, string> = {
+  "HELLO": "👋", "THANK-YOU": "🙏", "PLEASE": "🤲", "SORRY": "😔", "YES": "👍", "NO": "👎",
+  "HELP": "🆘", "WHERE": "❓", "WATER": "💧", "EAT": "🍽️", "MOTHER": "👩", "FATHER": "👨"
+};
+
 const GESTURE_LIBRARY: Record<string, GestureLibraryItem> = {
   "A": { emoji: "✊", title: "A", description: "Fist, thumb on side.", image: "/gesture/A-removebg-preview.png" },
   "B": { emoji: "✋", title: "B", description: "Flat hand, thumb tucked.", image: "/gesture/B-removebg-preview.png" },
@@ -180,254 +207,27 @@ const GESTURE_LIBRARY: Record<string, GestureLibraryItem> = {
   "4": { emoji: "🖐", title: "4", description: "4 Fingers, thumb tucked.", image: "/gesture/4-removebg-preview.png" },
   "5": { emoji: "✋", title: "5", description: "All fingers spread.", image: "/gesture/5-removebg-preview.png" },
   "I Love You": { emoji: "🤘", title: "ILU", description: "Thumb, Index, Pinky.", image: "https://upload.wikimedia.org/wikipedia/commons/thumb/a/a6/Sign_language_I_love_you.svg/228px-Sign_language_I_love_you.svg.png" },
-  "OK": { emoji: "👌", title: "OK", description: "Thumb/Index ring.", image: "/gesture/F-removebg-preview.png" }
-};
-
-// --- Advanced Math Helpers ---
-// UPDATED: Now supports scale normalization
-const dist = (p1: Landmark, p2: Landmark, scale = 1.0) => {
-  const d = Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
-  return d / scale;
-};
-
-const getFingerState = (landmarks: Landmark[], fingerName: string, scale: number) => {
-  const fingerMap: Record<string, number> = {
-    "Index": 1, "Middle": 2, "Ring": 3, "Pinky": 4,
-  };
-  const idx = fingerMap[fingerName];
-  const tip = landmarks[idx * 4 + 4];
-  const pip = landmarks[idx * 4 + 2];
-  const wrist = landmarks[0];
-  // Extended if Tip is further from wrist than PIP
-  // This logic works regardless of scale, but we pass scale for potential future use or consistency
-  return dist(tip, wrist, scale) > dist(pip, wrist, scale) * 1.2;
-};
-
-const isThumbExtended = (landmarks: Landmark[], scale: number) => {
-  const thumbTip = landmarks[4];
-  const thumbIP = landmarks[3];
-  const thumbMCP = landmarks[2];
-  const pinkyMCP = landmarks[17];
-
-  // Normalized checks
-  const isFarFromPalm = dist(thumbTip, pinkyMCP, scale) > dist(thumbMCP, pinkyMCP, scale) * 1.3;
-  const isStraight = dist(thumbTip, thumbMCP, scale) > dist(thumbIP, thumbMCP, scale) * 1.0;
-
-  return isFarFromPalm && isStraight;
-};
-
-// --- SMART RECOGNITION LOGIC (REFINED v7 - HIERARCHICAL) ---
-const recognizeGeometricGesture = (landmarks: Landmark[]) => {
-  if (!landmarks || landmarks.length === 0) return null;
-
-  const wrist = landmarks[0];
-  const thumbTip = landmarks[4];
-  const thumbIP = landmarks[3];
-  const thumbMCP = landmarks[2];
-  const indexTip = landmarks[8];
-  const indexPIP = landmarks[6];
-  const indexMCP = landmarks[5];
-  const middleTip = landmarks[12];
-  const middleMCP = landmarks[9];
-  const ringTip = landmarks[16];
-  const ringMCP = landmarks[13];
-  const pinkyTip = landmarks[20];
-  const pinkyMCP = landmarks[17];
-
-  // 1. Calculate Reference Scale (Palm Width: Wrist to Middle MCP)
-  const palmSize = dist(wrist, middleMCP, 1.0);
-  const scale = palmSize > 0.01 ? palmSize : 0.1;
-
-  // 2. Get Finger States (Normalized)
-  const indExt = getFingerState(landmarks, "Index", scale);
-  const midExt = getFingerState(landmarks, "Middle", scale);
-  const rinExt = getFingerState(landmarks, "Ring", scale);
-  const pinExt = getFingerState(landmarks, "Pinky", scale);
-  const thumbExt = isThumbExtended(landmarks, scale);
-
-  // Special "Curved" Checks (C, O, X) - these interrupt extension logic
-  const thumbIndexDist = dist(thumbTip, indexTip, scale);
-  const indexCurledHalfway = !indExt && dist(indexTip, indexMCP, scale) > 0.9;
-  
-  // "C" / "O" Check (Prioritize if fingers are ALL curved matching "C" shape)
-  if (!indExt && !midExt && !rinExt && !pinExt) {
-     if (indexCurledHalfway) {
-        if (thumbIndexDist < 0.35) return "O";
-        if (thumbIndexDist > 0.35 && thumbIndexDist < 1.3) return "C";
-     }
-  }
-
-  // Count Extended Fingers (Excluding Thumb)
-  const extendedCount = [indExt, midExt, rinExt, pinExt].filter(Boolean).length;
-
-  // --- HIERARCHY START ---
-  
-  // CASE: 4 Fingers Up
-  if (extendedCount === 4) {
-    if (dist(thumbTip, indexMCP, scale) < 0.6) return "4"; // Thumb tucked
-    return "5"; // Thumb out = 5 (or loose 4)
-  }
-
-  // CASE: 3 Fingers Up
-  if (extendedCount === 3) {
-    // W: Index, Middle, Ring
-    if (indExt && midExt && rinExt) {
-       // F: If Thumb & Index are touching? No, F is 3 fingers (Mid/Ring/Pinky)
-       return "W";
-    }
-    // F: Middle, Ring, Pinky (Index & Thumb tip touching)
-    if (midExt && rinExt && pinExt) {
-       if (thumbIndexDist < 0.4) return "F";
-       // If not touching, it's just "OK" symbol (which is F in some contexts)
-       return "OK"; // or F
-    }
-  }
-  
-  // CASE: 2 Fingers Up
-  if (extendedCount === 2) {
-    // 3 Check (Thumb + Index + Middle)
-    if (thumbExt && indExt && midExt) return "3";
-
-    // Standard 2-finger group (Index + Middle)
-    if (indExt && midExt) {
-      // K: Thumb inserted UP between Index/Middle
-      if (thumbTip.y < indexMCP.y && dist(thumbTip, indexPIP, scale) < 0.6 && !thumbExt) return "K";
-
-      // R: Crossed
-      const isRightHand = indexMCP.x < pinkyMCP.x;
-      const isCrossed = isRightHand 
-        ? indexTip.x > middleTip.x 
-        : indexTip.x < middleTip.x;
-      if (isCrossed) return "R";
-
-      // U: Touching parallel
-      if (dist(indexTip, middleTip, scale) < 0.35) return "U";
-
-      // V: Spread
-      return "V"; // or 2
-    }
-    
-    // Y Check (Thumb + Pinky) - Wait, Y usually has Index/Mid/Ring down.
-    // If Logic sees "Thumb Up" and "Pinky Up" => That's 1 finger extended (Pinky) + Thumb.
-    // So Y falls into count=1 bucket usually.
-  }
-
-  // CASE: 1 Finger Up
-  if (extendedCount === 1) {
-    // L: Index + Thumb (L shape)
-    if (indExt && thumbExt) return "L";
-    
-    // 1 / D / X
-    if (indExt) {
-      if (dist(thumbTip, middleTip, scale) < 0.5) return "D"; // Thumb touches Middle tip
-      
-      // X: Index is partially curled/hooked? 
-      // Current logical 'indExt' is strict. If X is hooked, indExt might be FALSE.
-      // So X is often detected in count=0 bucket or need looser check.
-      return "1";
-    }
-
-    // I / J / Y (Pinky up)
-    if (pinExt) {
-       if (thumbExt) return "Y";
-       // J is motion, static is I
-       return "I";
-    }
-  }
-
-  // CASE: 0 Fingers Extended (Fist / Hook / Closed)
-  if (extendedCount === 0) {
-     
-     // X Check: Index is "Hooked" (not clearly extended, but not closed)
-     // Tip is far from palm, but PIP is high.
-     if (dist(indexTip, indexMCP, scale) > 0.7 && dist(indexTip, indexMCP, scale) < 1.3) {
-        // Only valid if others are closed
-        return "X";
-     }
-
-     // FIST GROUP (Thumb Position Matters)
-     const isRightHand = indexMCP.x < pinkyMCP.x;
-
-     // S: Thumb crosses fingers horizontally
-     // Check if thumb tip crosses Middle Finger centerline
-     const thumbCrossed = isRightHand ? (thumbTip.x > middleMCP.x) : (thumbTip.x < middleMCP.x);
-     if (thumbCrossed && thumbTip.y < indexMCP.y) return "S";
-
-     // T: Thumb sandwich (Between Index & Middle)
-     // Strict X-bound check
-     const thumbInIndexZone = isRightHand 
-         ? (thumbTip.x < indexMCP.x && thumbTip.x > middleMCP.x)
-         : (thumbTip.x > indexMCP.x && thumbTip.x < middleMCP.x);
-     if (thumbInIndexZone && dist(thumbTip, indexPIP, scale) < 0.6) return "T";
-
-     // E: Thumb curled low, touching/near palm
-     // AND fingers strictly curled tightly
-     const fingerstight = dist(indexTip, indexMCP, scale) < 0.85;
-     if (thumbTip.y > indexMCP.y && dist(thumbTip, indexMCP, scale) < 0.7 && fingerstight) return "E";
-     
-     // M/N variants (Thumb peeking out)
-     // M: Past Ring finger
-     const thumbPastRing = isRightHand ? (thumbTip.x > ringMCP.x) : (thumbTip.x < ringMCP.x);
-     if (thumbPastRing) return "M";
-
-     // N: Past Middle finger
-     const thumbPastMid = isRightHand ? (thumbTip.x > middleMCP.x) : (thumbTip.x < middleMCP.x);
-     if (thumbPastMid) return "N";
-
-     // A: Thumb upright on side
-     return "A";
-  }
-
-  return null;
-};
-
-// --- KNN Logic ---
-const calculateEuclideanDistance = (v1: number[], v2: number[]): number => {
-  if (v1.length !== v2.length) return Infinity;
-  let sum = 0;
-  for (let i = 0; i < v1.length; i++) sum += Math.pow(v1[i] - v2[i], 2);
-  return Math.sqrt(sum);
-};
-
-const K = 5;
-
-const predictKNN = (inputVector: number[], trainingData: TrainingSample[]): { label: string, confidence: number } | null => {
-  if (trainingData.length === 0 || inputVector.length === 0) return null;
-  const distances = trainingData.map(sample => ({
-    label: sample.label,
-    distance: calculateEuclideanDistance(inputVector, sample.vector)
-  }));
-  distances.sort((a, b) => a.distance - b.distance);
-  const neighbors = distances.slice(0, Math.min(K, trainingData.length));
-  const votes: Record<string, { weight: number, count: number }> = {};
-  let totalWeight = 0;
-  neighbors.forEach(n => {
-    const weight = 1 / (n.distance + 0.0001);
-    if (!votes[n.label]) votes[n.label] = { weight: 0, count: 0 };
-    votes[n.label].weight += weight;
-    votes[n.label].count += 1;
-    totalWeight += weight;
-  });
-  let winner: string | null = null;
-  let maxWeight = -Infinity;
-  Object.keys(votes).forEach(label => {
-    if (votes[label].weight > maxWeight) {
-      maxWeight = votes[label].weight;
-      winner = label;
-    }
-  });
-  if (!winner) return null;
-  const confidence = totalWeight > 0 ? (maxWeight / totalWeight) : 0;
-  return { label: winner, confidence: Math.min(confidence * 100, 100) };
+  "OK": { emoji: "👌", title: "OK", description: "Thumb/Index ring.", image: "/gesture/F-removebg-preview.png" },
+  // Word signs: the picture shows the hand shape, the description where and how it moves
+  ...Object.fromEntries(BUILTIN_VOCABULARY.map(word => [word.label, {
+    emoji: WORD_EMOJI[word.label] ?? "💬",
+    title: word.title,
+    description: describeWord(word),
+    image: `/gesture/${word.handShapes[0]}-removebg-preview.png`
+  }]))
 };
 
 // --- Drawing Helper ---
-const drawLandmarks = (ctx: CanvasRenderingContext2D | null, landmarks: Landmark[]) => {
+interface SkeletonColors { bone: string; joint: string; tip: string; }
+const DOMINANT_HAND_COLORS: SkeletonColors = { bone: "#00FF00", joint: "#FF0000", tip: "#FFFF00" };
+const OTHER_HAND_COLORS: SkeletonColors = { bone: "#00BFFF", joint: "#FF00FF", tip: "#FFFFFF" };
+
+const drawLandmarks = (ctx: CanvasRenderingContext2D | null, landmarks: Landmark[], colors = DOMINANT_HAND_COLORS, clear = true) => {
   if (!ctx) return;
-  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (clear) ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
   ctx.lineWidth = 2;
   const connections = [[0, 1], [1, 2], [2, 3], [3, 4], [0, 5], [5, 6], [6, 7], [7, 8], [5, 9], [9, 10], [10, 11], [11, 12], [9, 13], [13, 14], [14, 15], [15, 16], [13, 17], [17, 18], [18, 19], [19, 20], [0, 17]];
-  ctx.strokeStyle = "#00FF00";
+  ctx.strokeStyle = colors.bone;
   connections.forEach(([i, j]) => {
     ctx.beginPath();
     ctx.moveTo(landmarks[i].x * ctx.canvas.width, landmarks[i].y * ctx.canvas.height);
@@ -437,7 +237,7 @@ const drawLandmarks = (ctx: CanvasRenderingContext2D | null, landmarks: Landmark
   landmarks.forEach((p, i) => {
     const x = p.x * ctx.canvas.width;
     const y = p.y * ctx.canvas.height;
-    ctx.fillStyle = (i % 4 === 0 && i !== 0) ? "#FFFF00" : "#FF0000";
+    ctx.fillStyle = (i % 4 === 0 && i !== 0) ? colors.tip : colors.joint;
     ctx.strokeStyle = "#FFFFFF";
     ctx.beginPath();
     ctx.arc(x, y, (i % 4 === 0 && i !== 0) ? 5 : 3, 0, 2 * Math.PI);
@@ -446,36 +246,142 @@ const drawLandmarks = (ctx: CanvasRenderingContext2D | null, landmarks: Landmark
   });
 };
 
+// Body anchors as small rings, so the signer can see where the zones are
+const BODY_ANCHOR_COLOR = "#A78BFA";
+
+const drawBodyAnchors = (ctx: CanvasRenderingContext2D | null, body: BodyAnchors) => {
+  if (!ctx) return;
+  ctx.strokeStyle = BODY_ANCHOR_COLOR;
+  ctx.lineWidth = 2;
+  [body.forehead, body.chin, body.chest].forEach(point => {
+    if (!point) return;
+    ctx.beginPath();
+    ctx.arc(point.x * ctx.canvas.width, point.y * ctx.canvas.height, 6, 0, 2 * Math.PI);
+    ctx.stroke();
+  });
+};
+
 // --- useLandmarker Hook ---
 
+// Stable empty dataset so the pipeline isn't re-sent data on every render
+const NO_TRAINING_DATA: TrainingSample[] = [];
+
 function useLandmarker({
   videoRef,
   canvasRef,
-  onFrameProcessed
+  onFrameProcessed,
+  smoothing,
+  trainingData,
+  classifier,
+  strictness,
+  dominantHand,
+  bodyTracking,
+  onBodyTrackingFailed
 }: {
   videoRef: React.RefObject<HTMLVideoElement | null>,
   canvasRef: React.RefObject<HTMLCanvasElement | null>,
-  onFrameProcessed: (vector: number[], rawData: Landmark[]) => void
+  onFrameProcessed: (vector: number[], rawData: Landmark[], info: FrameInfo) => void,
+  smoothing: SmoothingSettings,
+  trainingData: TrainingSample[], // Sent to the pipeline so the custom model runs next to detection
+  classifier: ClassifierConfig,
+  strictness: number,
+  dominantHand: HandLabel,
+  bodyTracking: BodyTracking,
+  onBodyTrackingFailed: () => void
 }) {
   const [status, setStatus] = useState("Loading Model...");
   const [isScanning, setIsScanning] = useState(false);
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const landmarkerRef = useRef<HandLandmarker | null>(null); // Main-thread fallback only
+  const workerRef = useRef<Worker | null>(null);
+  const modelReadyRef = useRef(false);
+  const frameInFlightRef = useRef(false);
   const requestRef = useRef<number | null>(null);
   const onFrameProcessedRef = useRef(onFrameProcessed);
+  const playerRef = useRef<{ player: SessionPlayer, startedAt: number } | null>(null);
+  // Post-detection stages for the main thread (fallback detection and replays)
+  const [processor] = useState(createFrameProcessor);
+  const [bodyTracker] = useState(() => createBodyTracker()); // Main-thread fallback only
+  const onBodyTrackingFailedRef = useRef(onBodyTrackingFailed);
+  const pipelineConfigRef = useRef<PipelineConfig>({ smoothing, trainingData, classifier, strictness, dominantHand, bodyTracking });
 
   const lastPredictionTime = useRef(0);
   const predictionIntervalRef = useRef(50); // Dynamic interval
 
   useEffect(() => {
     onFrameProcessedRef.current = onFrameProcessed;
-  }, [onFrameProcessed]);
+    onBodyTrackingFailedRef.current = onBodyTrackingFailed;
+  }, [onFrameProcessed, onBodyTrackingFailed]);
 
-  const extractVector = (landmarks: Landmark[]) => {
-    return landmarks.flatMap(p => [p.x, p.y, p.z]);
-  };
+  const syncMainThreadBodyTracking = useCallback((tracking: BodyTracking) => {
+    bodyTracker.setTracking(tracking).catch(error => {
+      console.warn("Gamay: Body tracking failed to load", error);
+      onBodyTrackingFailedRef.current();
+    });
+  }, [bodyTracker]);
+
+  useEffect(() => {
+    const config: PipelineConfig = { smoothing, trainingData, classifier, strictness, dominantHand, bodyTracking };
+    pipelineConfigRef.current = config;
+    processor.configure(config);
+    workerRef.current?.postMessage({ type: "configure", config } satisfies WorkerRequest);
+    if (landmarkerRef.current) {
+      syncMainThreadBodyTracking(bodyTracking);
+      processor.prepare();
+    }
+  }, [processor, smoothing, trainingData, classifier, strictness, dominantHand, bodyTracking, syncMainThreadBodyTracking]);
+
+  const deliverFrame = useCallback((frame: HandFrame) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    const { primary, secondary } = frame;
+    const info: FrameInfo = {
+      timestamp: frame.timestamp,
+      handedness: primary?.handedness ?? null,
+      raw: primary?.raw,
+      otherHand: secondary,
+      ml: frame.ml,
+      body: frame.body
+    };
+    if (!primary) {
+      ctx?.clearRect(0, 0, canvas.width, canvas.height);
+      if (frame.body) drawBodyAnchors(ctx, frame.body);
+      onFrameProcessedRef.current([], [], info);
+      return;
+    }
+    drawLandmarks(ctx, primary.landmarks);
+    if (secondary) drawLandmarks(ctx, secondary.landmarks, OTHER_HAND_COLORS, false);
+    if (frame.body) drawBodyAnchors(ctx, frame.body);
+    const vector = primary.landmarks.flatMap(p => [p.x, p.y, p.z]);
+    onFrameProcessedRef.current(vector, primary.landmarks, info);
+  }, [canvasRef]);
 
   const predictWebcam = useCallback(() => {
-    if (!landmarkerRef.current || !videoRef.current || !canvasRef.current) {
+    // REPLAY MODE: Recorded frames stand in for the webcam until the session ends
+    if (playerRef.current && canvasRef.current) {
+      const { player, startedAt } = playerRef.current;
+      const canvas = canvasRef.current;
+      if (canvas.width === 0) {
+        canvas.width = 640;
+        canvas.height = 480;
+      }
+      const frame = player.next(performance.now() - startedAt);
+      if (frame) {
+        const hands = frame.landmarks.length > 0
+          ? [{ landmarks: frame.landmarks, handedness: frame.handedness }, ...(frame.extraHands ?? [])]
+          : [];
+        deliverFrame(processor.process(hands, startedAt + frame.t));
+      }
+      if (player.isDone()) {
+        playerRef.current = null;
+        setIsReplaying(false);
+      }
+      requestRef.current = requestAnimationFrame(predictWebcam);
+      return;
+    }
+
+    if (!modelReadyRef.current || !videoRef.current || !canvasRef.current) {
       requestRef.current = requestAnimationFrame(predictWebcam);
       return;
     }
@@ -485,7 +391,6 @@ function useLandmarker({
       requestRef.current = requestAnimationFrame(predictWebcam);
       return;
     }
-    const ctx = canvas.getContext("2d");
     if (canvas.width !== video.videoWidth) {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
@@ -495,22 +400,36 @@ function useLandmarker({
       requestRef.current = requestAnimationFrame(predictWebcam);
       return;
     }
+
+    // WORKER MODE: Hand the frame off and keep the UI thread free.
+    // One frame in flight at a time, so a slow device simply drops frames.
+    const worker = workerRef.current;
+    if (worker) {
+      if (!frameInFlightRef.current) {
+        lastPredictionTime.current = now;
+        frameInFlightRef.current = true;
+        setIsScanning(true);
+        const timestamp = performance.now();
+        if (typeof VideoFrame !== "undefined") {
+          const frame = new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) });
+          worker.postMessage({ type: "frame", frame, timestamp } satisfies WorkerRequest, [frame]);
+        } else {
+          createImageBitmap(video)
+            .then(bitmap => worker.postMessage({ type: "frame", frame: bitmap, timestamp } satisfies WorkerRequest, [bitmap]))
+            .catch(() => { frameInFlightRef.current = false; });
+        }
+      }
+      requestRef.current = requestAnimationFrame(predictWebcam);
+      return;
+    }
+
     lastPredictionTime.current = now;
     setIsScanning(true);
     
     const startTimeMs = performance.now();
     try {
       if (landmarkerRef.current) {
-        const results = landmarkerRef.current.detectForVideo(video, startTimeMs);
-        if (results.landmarks && results.landmarks.length > 0) {
-          const landmarks = results.landmarks[0] as Landmark[];
-          drawLandmarks(ctx, landmarks);
-          const vector = extractVector(landmarks);
-          onFrameProcessedRef.current(vector, landmarks);
-        } else {
-          ctx?.clearRect(0, 0, canvas.width, canvas.height);
-          onFrameProcessedRef.current([], []);
-        }
+        deliverFrame(detectHands(landmarkerRef.current, processor, video, startTimeMs, bodyTracker));
       }
     } catch (e) {
       console.warn(e);
@@ -529,58 +448,96 @@ function useLandmarker({
 
     setTimeout(() => setIsScanning(false), predictionIntervalRef.current);
     requestRef.current = requestAnimationFrame(predictWebcam);
-  }, [videoRef, canvasRef]);
+  }, [videoRef, canvasRef, deliverFrame, processor, bodyTracker]);
 
   useEffect(() => {
     let stream: MediaStream | null = null;
     let isCancelled = false;
 
-    const initLandmarker = async () => {
-      if (typeof window === 'undefined' || !navigator.mediaDevices) return;
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
-        );
-        
-        try {
-          landmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-            baseOptions: {
-              modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-              delegate: "GPU"
-            },
-            runningMode: "VIDEO",
-            numHands: 1,
-            minHandDetectionConfidence: 0.5,
-            minHandPresenceConfidence: 0.5,
-            minTrackingConfidence: 0.5
-          });
-          console.log("Gamay: Model loaded using GPU");
-        } catch (gpuError) {
-          console.warn("Gamay: GPU init failed, falling back to CPU", gpuError);
-          landmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-            baseOptions: {
-              modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-              delegate: "CPU"
-            },
-            runningMode: "VIDEO",
-            numHands: 1,
-            minHandDetectionConfidence: 0.5,
-            minHandPresenceConfidence: 0.5,
-            minTrackingConfidence: 0.5
-          });
-          console.log("Gamay: Model loaded using CPU");
-        }
+    const onModelReady = () => {
+      modelReadyRef.current = true;
+      // Model loaded.
+      if (!isCancelled && videoRef.current && videoRef.current.srcObject) {
+         setStatus("Ready");
+      }
+    };
 
-        // Model loaded.
-        if (!isCancelled && videoRef.current && videoRef.current.srcObject) {
-           setStatus("Ready");
-        }
+    const initOnMainThread = async () => {
+      try {
+        const { landmarker, delegate } = await createHandLandmarker();
+        landmarkerRef.current = landmarker;
+        console.log(`Gamay: Model loaded using ${delegate}`);
+        syncMainThreadBodyTracking(pipelineConfigRef.current.bodyTracking);
+        processor.prepare();
+        onModelReady();
       } catch (error) {
         console.error("Gamay Critical AI Load Error:", error);
         if (!isCancelled) setStatus("Failed to load AI.");
       }
     };
 
+    const initInWorker = () => {
+      const worker = createLandmarkerWorker();
+      const fallBack = (reason: unknown) => {
+        console.warn("Gamay: Worker detection unavailable, falling back to main thread", reason);
+        worker.terminate();
+        workerRef.current = null;
+        // A frame in flight will never be answered, and the main thread loads its own model
+        frameInFlightRef.current = false;
+        modelReadyRef.current = false;
+        setIsScanning(false);
+        if (!isCancelled) initOnMainThread();
+      };
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "ready":
+            console.log(`Gamay: Model loaded in worker using ${message.delegate}`);
+            onModelReady();
+            break;
+          case "initError":
+            fallBack(message.message);
+            break;
+          case "result":
+            frameInFlightRef.current = false;
+            setIsScanning(false);
+            // A replay may have started while this frame was in flight
+            if (!playerRef.current) deliverFrame(message.frame);
+            break;
+          case "frameError":
+            frameInFlightRef.current = false;
+            setIsScanning(false);
+            console.warn(message.message);
+            break;
+          case "bodyError":
+            console.warn("Gamay: Body tracking failed to load", message.message);
+            onBodyTrackingFailedRef.current();
+            break;
+        }
+      };
+      // Before "ready" the worker never came up; after it, detection would wait forever on
+      // the frame in flight. Either way carry on without it.
+      worker.onerror = (event) => fallBack(event.message);
+
+      workerRef.current = worker;
+      worker.postMessage({ type: "configure", config: pipelineConfigRef.current } satisfies WorkerRequest);
+      worker.postMessage({ type: "init" } satisfies WorkerRequest);
+    };
+
+    const initLandmarker = async () => {
+      if (typeof window === 'undefined' || !navigator.mediaDevices) return;
+      if (supportsWorkerDetection()) {
+        try {
+          initInWorker();
+          return;
+        } catch (error) {
+          console.warn("Gamay: Could not start landmarker worker", error);
+        }
+      }
+      await initOnMainThread();
+    };
+
     const startCamera = async () => {
       if (videoRef.current && navigator.mediaDevices) {
         try {
@@ -593,7 +550,7 @@ function useLandmarker({
             videoRef.current.onloadeddata = () => {
               predictWebcam();
               if (!isCancelled) {
-                 if (landmarkerRef.current) {
+                 if (modelReadyRef.current) {
                     setStatus("Ready");
                  } else {
                     setStatus("Downloading Model...");
@@ -616,37 +573,90 @@ function useLandmarker({
       isCancelled = true;
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
       if (stream) stream.getTracks().forEach(track => track.stop());
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      modelReadyRef.current = false;
+      frameInFlightRef.current = false;
     };
-  }, [predictWebcam, videoRef]);
-  return { status, isScanning };
+  }, [predictWebcam, videoRef, deliverFrame, processor, syncMainThreadBodyTracking]);
+
+  const startReplay = useCallback((session: LandmarkSession) => {
+    playerRef.current = { player: createSessionPlayer(session), startedAt: performance.now() };
+    setIsReplaying(true);
+    // The loop normally starts with the camera; kick it off if there is no camera
+    if (requestRef.current === null) requestRef.current = requestAnimationFrame(predictWebcam);
+  }, [predictWebcam]);
+
+  const stopReplay = useCallback(() => {
+    playerRef.current = null;
+    setIsReplaying(false);
+  }, []);
+
+  return { status, isScanning, isReplaying, startReplay, stopReplay };
 }
 
 // --- usePredictionModel Hook ---
 
+// hybrid -> built-in rules and the custom model both vote (see lib/recognition/ensemble.ts)
+type ModelType = "none" | "geometric" | "ml" | "hybrid";
+
+const PREDICTION_SOURCE_NAMES: Record<PredictionSource, string> = { geometric: "rules", ml: "custom model" };
+
 function usePredictionModel() {
-  const [modelType, setModelType] = useState<"none" | "geometric" | "ml">("geometric");
+  const [modelType, setModelType] = useState<ModelType>("geometric");
   const [detectedLabel, setDetectedLabel] = useState("");
   const [debugStatus, setDebugStatus] = useState("Waiting...");
   const [confidence, setConfidence] = useState(0);
   const [isLocked, setIsLocked] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
+  const [isUnknown, setIsUnknown] = useState(false);
 
   const trainingDataRef = useRef<TrainingSample[]>([]);
+  // Snapshot of trainingDataRef for consumers that react to changes (e.g. the detection worker)
+  const [trainingData, setTrainingData] = useState<TrainingSample[]>([]);
   const [mlDataSize, setMlDataSize] = useState(0);
   const [trainedClasses, setTrainedClasses] = useState<string[]>([]);
-
-  const bufferRef = useRef<string[]>([]);
+  const [classifierConfig, setClassifierConfig] = useState<ClassifierConfig>(DEFAULT_CLASSIFIER_CONFIG);
+  const [strictness, setStrictness] = useState(DEFAULT_STRICTNESS);
+  // Hybrid mode: trained built-in letters whose rule keeps voting next to the custom model
+  const [sharedLabels, setSharedLabels] = useState<string[]>([]);
+  // The bundled alphabet sits under the user's samples in the model, never in their dataset
+  const [includeBaseline, setIncludeBaseline] = useState(true);
+  const baselineData = useMemo(() => createBaselineDataset(), []);
+  const modelData = useMemo(() => includeBaseline ? [...baselineData, ...trainingData] : trainingData, [includeBaseline, baselineData, trainingData]);
+  // Main-thread model for frames that arrive without a pipeline prediction; retrained only
+  // when the dataset or the backend changes
+  const fallbackClassifierRef = useRef<{ data: TrainingSample[], config: ClassifierConfig, classifier: Classifier, calibration: RejectionCalibration, locations: LocationIndex } | null>(null);
+
+  // Personal geometric thresholds from the active profile's hand calibration
+  const [calibration, setCalibration] = useState<HandCalibration | null>(null);
+
+  const stabilizer = useMemo(() => createStabilizer(), []);
+  const geometricRecognizer = useMemo(() => createGeometricRecognizer(ALPHABET_RULES, calibration?.thresholds), [calibration]);
+  const ensemble = useMemo(() => createEnsemble(trainedClasses, {
+    classWeights: Object.fromEntries([
+      // Baseline letters the user hasn't trained vote alongside their rule instead of replacing it
+      ...(includeBaseline ? BASELINE_LABELS.filter(label => !trainedClasses.includes(label)).map(label => [label, { ml: 1, geometric: 1 }]) : []),
+      ...sharedLabels.map(label => [label, { geometric: 1 }])
+    ])
+  }), [trainedClasses, sharedLabels, includeBaseline]);
+  const trajectory = useMemo(() => createTrajectoryTracker(), []);
+  const vocabulary = useMemo(() => createVocabularyTracker(), []);
+  const transition = useMemo(() => createTransitionGate(), []);
+  const motionTemplatesRef = useRef<MotionTemplate[]>(BUILTIN_MOTION_TEMPLATES);
+  const [customMotionLabels, setCustomMotionLabels] = useState<string[]>([]);
+  const [capturingMotion, setCapturingMotion] = useState(false);
   const lastSuccessfulDetectionTime = useRef<number>(0);
-  const prevIndexPos = useRef<{ x: number, y: number } | null>(null);
-  const motionBuffer = useRef<number[]>([]);
 
   const [verificationProgress, setVerificationProgress] = useState(0);
+  // What the recognizers ranked behind the last accepted sign, offered as corrections
+  const runnersUpRef = useRef<string[]>([]);
 
-  // Increased buffer size for consistency (User requested 20-30 frames)
-  const PREDICTION_BUFFER_SIZE = 30;
   const SCAN_DELAY_MS = 600; // slightly faster lock
 
   const loadMLModel = (data: TrainingSample[]) => {
     trainingDataRef.current = data;
+    setTrainingData(data);
     setMlDataSize(data.length);
     const unique = Array.from(new Set(data.map(d => d.label)));
     setTrainedClasses(unique);
@@ -654,17 +664,37 @@ function usePredictionModel() {
 
   const clearModel = () => {
     trainingDataRef.current = [];
+    setTrainingData([]);
     setMlDataSize(0);
     setTrainedClasses([]);
     setModelType("geometric"); // Fallback
   };
 
-  const predict = (inputVector: number[], rawLandmarks: Landmark[]): string | null => {
+  const recognizeOnMainThread = (landmarks: Landmark[], info?: FrameInfo) => {
+    const data = modelData;
+    if (data.length < MIN_TRAINING_SAMPLES) return null;
+    const cached = fallbackClassifierRef.current;
+    const classifier = cached && cached.data === data && cached.config === classifierConfig
+      ? cached.classifier
+      : trainClassifier(data, classifierConfig);
+    const calibration = cached && cached.data === data ? cached.calibration : calibrateRejection(data);
+    const locations = cached && cached.data === data ? cached.locations : indexLocations(data);
+    fallbackClassifierRef.current = { data, config: classifierConfig, classifier, calibration, locations };
+    const recognizer = withLocationZones(createClassifierRecognizer(withRejection(classifier, calibration, strictness)), locations);
+    return recognizer.recognize(landmarks, { handedness: info?.handedness, otherHand: info?.otherHand?.landmarks, body: info?.body });
+  };
+
+  const predict = (inputVector: number[], rawLandmarks: Landmark[], info?: FrameInfo): string | null => {
     if (modelType === "none" || !rawLandmarks || rawLandmarks.length === 0) {
       setDebugStatus("No Hand");
       setConfidence(0);
       setIsLocked(false);
-      bufferRef.current = []; // Clear buffer on loss
+      stabilizer.reset(); // Clear buffer on loss
+      trajectory.reset();
+      vocabulary.reset();
+      transition.reset();
+      setIsMoving(false);
+      setIsUnknown(false);
       setDetectedLabel("");
       return null;
     }
@@ -677,99 +707,119 @@ function usePredictionModel() {
 
     let rawResult: string | null = null;
     let rawConfidence = 0;
+    let closestGuess: string | null = null; // Set when the custom model rejected the frame as unknown
+
+    let source: PredictionSource | null = null;
 
     // --- 1. RAW PREDICTION PHASE ---
-    if (modelType === "geometric") {
-      rawResult = recognizeGeometricGesture(rawLandmarks);
-      
-      // Geometric confidence is implicitly 100% if matched, but we simulate variance
-      if (rawResult) rawConfidence = 90;
-
-      // Z Motion Logic
-      if (rawResult === "1" || rawResult === "D") {
-        const indexTip = rawLandmarks[8];
-        if (prevIndexPos.current) {
-          const dx = Math.abs(indexTip.x - prevIndexPos.current.x);
-          const dy = Math.abs(indexTip.y - prevIndexPos.current.y);
-          const velocity = Math.sqrt(dx * dx + dy * dy);
-          motionBuffer.current.push(velocity);
-          if (motionBuffer.current.length > 5) motionBuffer.current.shift();
-          const avgVel = motionBuffer.current.reduce((a, b) => a + b, 0) / motionBuffer.current.length;
-          
-          if (avgVel > 0.04) {
-             rawResult = "Z";
-             rawConfidence = 95; // Motion adds confidence
-          }
-        }
-        prevIndexPos.current = { x: indexTip.x, y: indexTip.y };
-      } else {
-        motionBuffer.current = [];
-      }
-    } else if (modelType === "ml") {
-      if (trainingDataRef.current.length >= K) {
-        const wrist = rawLandmarks[0];
-        const normalizedInput = rawLandmarks.flatMap(p => [
-          p.x - wrist.x, p.y - wrist.y, p.z - wrist.z
-        ]);
-        const mlPrediction = predictKNN(normalizedInput, trainingDataRef.current);
-        if (mlPrediction) {
-           rawResult = mlPrediction.label;
-           rawConfidence = mlPrediction.confidence;
-        }
-      }
+    const geometric = modelType === "geometric" || modelType === "hybrid"
+      ? geometricRecognizer.recognize(rawLandmarks, { handedness: info?.handedness })
+      : null;
+    // Prefer the prediction made next to detection (worker); compute here otherwise
+    const mlPrediction = modelType === "ml" || modelType === "hybrid"
+      ? info?.ml !== undefined ? info.ml : recognizeOnMainThread(rawLandmarks, info)
+      : null;
+    if (mlPrediction?.label === UNKNOWN_LABEL) {
+      // Nothing trained looks like this; treat it like no sign rather than the nearest one
+      closestGuess = mlPrediction.alternatives[0]?.label ?? null;
+    }
+    const decision = modelType === "hybrid" ? ensemble.combine(geometric, mlPrediction)
+      : modelType === "ml" ? (closestGuess === null && mlPrediction ? { ...mlPrediction, source: "ml" as const } : null)
+      : geometric && { ...geometric, source: "geometric" as const };
+    if (decision) {
+      rawResult = decision.label;
+      rawConfidence = decision.confidence;
+      source = decision.source;
+    }
+    const runnersUp = (decision?.alternatives ?? []).map(a => a.label).filter(label => label !== UNKNOWN_LABEL);
+    setIsUnknown(closestGuess !== null && !rawResult);
+
+    // --- 1b. MOTION SIGNS (J, Z, custom) ---
+    // Only fires when the fingertip path AND the hand shape along it match a template.
+    // A drawn path is a complete sign on its own, so it skips the stabilizer.
+    const motion = trajectory.push(rawLandmarks, info?.timestamp ?? performance.now(), info?.handedness ?? null, rawResult);
+    if (motion) {
+      stabilizer.reset();
+      vocabulary.reset();
+      runnersUpRef.current = [];
+      setDebugStatus(`Motion: ${motion.label} (${Math.round(motion.confidence)}%)`);
+      setConfidence(motion.confidence);
+      setVerificationProgress(100);
+      lastSuccessfulDetectionTime.current = Date.now();
+      return motion.label;
     }
 
-    setDebugStatus(rawResult ? `Found: ${rawResult} (${Math.round(rawConfidence)}%)` : "Analysing...");
+    // --- 1c. WORD SIGNS ---
+    // Hand shape + location + movement; reported once the hand settles after the movement
+    const word = vocabulary.push(rawLandmarks, info?.timestamp ?? performance.now(), info?.handedness ?? null, rawResult, info?.body ?? null);
+    if (word) {
+      stabilizer.reset();
+      trajectory.reset();
+      runnersUpRef.current = [];
+      setDebugStatus(`Word: ${word.label} (${Math.round(word.confidence)}%)`);
+      setConfidence(word.confidence);
+      setVerificationProgress(100);
+      lastSuccessfulDetectionTime.current = Date.now();
+      return word.label;
+    }
+
+    // --- 1d. TRANSITION GATING ---
+    // Frames caught between two signs never reach the vote, so they can't add phantom letters
+    const { moving, started } = transition.push(rawLandmarks, info?.timestamp ?? performance.now());
+    setIsMoving(moving);
+    if (moving) {
+      if (started) stabilizer.reset(); // Whatever was held before is being left behind
+      setDebugStatus("Moving...");
+      return null;
+    }
+
+    const location: SignLocation | null = info?.body ? locateHand(rawLandmarks, info.body) : null;
+    setDebugStatus(
+      rawResult ? `Found: ${rawResult} (${Math.round(rawConfidence)}%)${modelType === "hybrid" && source ? ` via ${PREDICTION_SOURCE_NAMES[source]}` : ""}${location ? ` at ${location}` : ""}`
+        : closestGuess ? `Unknown sign (closest: ${closestGuess})`
+        : "Analysing..."
+    );
 
     // --- 2. STABILIZATION PHASE (The Filter) ---
     // We only accept the result if it's high quality
     if (!rawResult) {
-      // If we see nothing, slowly decay confidence but don't snap to empty immediately
-      if (bufferRef.current.length > 0) bufferRef.current.shift();
+      stabilizer.decay();
       return null;
     }
 
-    // Add to sliding window buffer
-    bufferRef.current.push(rawResult);
-    if (bufferRef.current.length > PREDICTION_BUFFER_SIZE) {
-      bufferRef.current.shift();
-    }
+    const update = stabilizer.push(rawResult, rawConfidence);
+    if (!update) return null;
 
-    // Must have enough data to decide
-    if (bufferRef.current.length < 5) return null;
+    setConfidence(update.confidence); // Update UI
+    setVerificationProgress(update.progress);
 
-    // Count occurrences in buffer
-    const counts: Record<string, number> = {};
-    bufferRef.current.forEach((g) => { counts[g] = (counts[g] || 0) + 1; });
-    
-    const bestCandidate = Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b, "");
-    const frequency = counts[bestCandidate];
-    const consistency = frequency / bufferRef.current.length; // 0.0 to 1.0
-
-    // HYBRID CONFIDENCE CALCULATION
-    // Combine raw algorithm confidence with temporal stability
-    const finalConfidence = Math.round((rawConfidence * 0.4) + (consistency * 100 * 0.6));
-    setConfidence(finalConfidence); // Update UI
-
-    // CALC PROGRESS
-    // How close are we to the required 30 frames of consistency?
-    // We map frequency (count of best candidate) to a 0-100 scale based on a threshold (e.g. 25 frames)
-    const REQUIRED_FRAMES = 25;
-    const progress = Math.min(100, Math.round((frequency / REQUIRED_FRAMES) * 100));
-    setVerificationProgress(progress);
-
-    // STRICT THRESHOLD: 
-    // Requires high consistency (frequency > REQUIRED) AND >75% overall confidence
-    if (frequency >= REQUIRED_FRAMES && finalConfidence > 75) {
-      if (bestCandidate !== detectedLabel) {
+    if (update.accepted) {
+      if (update.candidate !== detectedLabel) {
         lastSuccessfulDetectionTime.current = Date.now();
       }
-      return bestCandidate;
+      // The vote can accept a label this frame didn't rank first; then this frame's pick is a runner-up too
+      runnersUpRef.current = [rawResult, ...runnersUp].filter(label => label !== update.candidate).slice(0, MAX_ALTERNATES);
+      return update.candidate;
     }
 
     return null; // Suppress unstable predictions
   };
 
+  // Custom motion signs: capture runs through predict(), so the model must be active
+  const startMotionCapture = () => {
+    trajectory.startCapture();
+    setCapturingMotion(true);
+  };
+
+  const finishMotionCapture = (label: string) => {
+    setCapturingMotion(false);
+    const template = trajectory.finishCapture(label);
+    if (!template) return alert("Not enough movement captured. Draw the sign larger and try again.");
+    motionTemplatesRef.current = [...motionTemplatesRef.current.filter(t => t.label !== label), template];
+    trajectory.setTemplates(motionTemplatesRef.current);
+    setCustomMotionLabels(prev => Array.from(new Set([...prev, label])));
+  };
+
   return {
     modelType,
     setModelType,
@@ -779,12 +829,31 @@ function usePredictionModel() {
     debugStatus,
     confidence,
     isLocked,
+    isMoving,
+    isUnknown,
     trainingDataRef,
+    trainingData,
+    modelData,
+    includeBaseline,
+    setIncludeBaseline,
+    calibration,
+    setCalibration,
     mlDataSize,
     loadMLModel,
     clearModel,
     trainedClasses,
-    verificationProgress
+    classifierConfig,
+    setClassifierConfig,
+    strictness,
+    setStrictness,
+    sharedLabels,
+    toggleSharedLabel: (label: string) => setSharedLabels(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]),
+    verificationProgress,
+    runnersUpRef,
+    customMotionLabels,
+    capturingMotion,
+    startMotionCapture,
+    finishMotionCapture
   };
 }
 
@@ -856,60 +925,139 @@ function useSpeechToSign() {
 }
 
 // --- useDataCollection Hook ---
+// Guided capture: a countdown, then the current step's samples, for every step in CAPTURE_STEPS
+interface CaptureWizardState {
+  step: number;
+  phase: "countdown" | "capturing" | "done";
+  countdown: number; // Seconds left before the step starts capturing
+  stepSamples: number;
+}
+
 function useDataCollection(trainingDataRef: React.MutableRefObject<TrainingSample[]>) {
   const [collecting, setCollecting] = useState(false);
   const [sampleCount, setSampleCount] = useState(0);
   const activeLabelRef = useRef("");
+  const twoHandedRef = useRef(false);
   const dataBufferRef = useRef<Sample[]>([]);
-  const lastSampleTimeRef = useRef<number>(0);
-  const SAMPLE_COOLDOWN_MS = 200;
+  const qualityFilter = useMemo(() => createCaptureQualityFilter(), []);
+  // Mirrored in a ref because addSample runs from the frame callback
+  const [wizard, setWizardState] = useState<CaptureWizardState | null>(null);
+  const wizardRef = useRef<CaptureWizardState | null>(null);
+  const countdownTimerRef = useRef<number | null>(null);
+  const [dropped, setDropped] = useState<Partial<Record<CaptureRejection, number>>>({});
+  // Hands already in the model for this label, so coverage counts them too
+  const existingHandsRef = useRef<Landmark[][]>([]);
+  const [coverage, setCoverage] = useState<Coverage | null>(null);
+
+  const setWizard = (next: CaptureWizardState | null) => {
+    wizardRef.current = next;
+    setWizardState(next);
+  };
+
+  const clearCountdown = () => {
+    if (countdownTimerRef.current !== null) window.clearTimeout(countdownTimerRef.current);
+    countdownTimerRef.current = null;
+  };
+
+  useEffect(() => clearCountdown, []);
+
+  const beginStep = (step: number) => {
+    clearCountdown();
+    const tick = (countdown: number) => {
+      if (countdown === 0) {
+        qualityFilter.reset(); // Don't judge the first frames by the movement into position
+        setWizard({ step, phase: "capturing", countdown: 0, stepSamples: 0 });
+        return;
+      }
+      setWizard({ step, phase: "countdown", countdown, stepSamples: 0 });
+      countdownTimerRef.current = window.setTimeout(() => tick(countdown - 1), 1000);
+    };
+    tick(CAPTURE_COUNTDOWN_SECONDS);
+  };
 
-  const startCollecting = (lbl: string) => {
+  const startCollecting = (lbl: string, twoHanded = false) => {
     if (!lbl) return alert("Enter label");
     activeLabelRef.current = lbl;
+    twoHandedRef.current = twoHanded;
     setCollecting(true);
     dataBufferRef.current = [];
     setSampleCount(0);
-    lastSampleTimeRef.current = 0;
+    setDropped({});
+    existingHandsRef.current = trainingDataRef.current.filter(s => s.label === lbl && s.landmarks).map(s => s.landmarks as Landmark[]);
+    setCoverage(assessCoverage(existingHandsRef.current));
+    beginStep(0);
   }
-  const stopCollecting = () => setCollecting(false);
 
-  const addSample = (vec: number[], raw: Landmark[]) => {
+  const stopCollecting = () => {
+    clearCountdown();
+    setCollecting(false);
+    setWizard(null);
+  };
+
+  const addSample = (vec: number[], raw: Landmark[], info?: FrameInfo) => {
+    const current = wizardRef.current;
+    if (!collecting || current?.phase !== "capturing") return;
     const now = Date.now();
-    if (collecting && raw.length > 0 && (now - lastSampleTimeRef.current > SAMPLE_COOLDOWN_MS)) {
-      dataBufferRef.current.push({ label: activeLabelRef.current, landmarks: raw });
-      setSampleCount(dataBufferRef.current.length);
-      lastSampleTimeRef.current = now;
+    const otherHand = info?.otherHand?.landmarks;
+    // Two-handed signs only keep frames where both hands are visible
+    if (twoHandedRef.current && !otherHand) return;
+    const rejection = qualityFilter.check(raw, info?.timestamp ?? performance.now(), info?.handedness);
+    if (rejection) {
+      if (rejection !== "cooldown") setDropped(prev => ({ ...prev, [rejection]: (prev[rejection] ?? 0) + 1 }));
+      return;
+    }
+    dataBufferRef.current.push({
+      label: activeLabelRef.current,
+      landmarks: raw,
+      handedness: info?.handedness ?? null,
+      timestamp: now,
+      ...(twoHandedRef.current && otherHand ? { otherHand } : {}),
+      ...(info?.body ? { location: locateHand(raw, info.body) } : {})
+    });
+    setSampleCount(dataBufferRef.current.length);
+    setCoverage(assessCoverage([...existingHandsRef.current, ...dataBufferRef.current.map(s => s.landmarks)]));
+
+    const stepSamples = current.stepSamples + 1;
+    if (stepSamples < CAPTURE_STEPS[current.step].samples) {
+      setWizard({ ...current, stepSamples });
+    } else if (current.step + 1 < CAPTURE_STEPS.length) {
+      beginStep(current.step + 1);
+    } else {
+      setWizard({ ...current, stepSamples, phase: "done" });
+      setCollecting(false);
     }
   }
 
-  const addToModel = () => {
+  // augmentation: extra synthetic samples per recorded one (flagged `augmented`), or null for none
+  const addToModel = (augmentation: AugmentationOptions | null = null) => {
     if (dataBufferRef.current.length === 0) return null;
-    const newTrainingData: TrainingSample[] = dataBufferRef.current.map(sample => {
-      const wrist = sample.landmarks[0];
-      const normalizedVector = sample.landmarks.flatMap(p => [
-        p.x - wrist.x, p.y - wrist.y, p.z - wrist.z
-      ]);
-      return { label: sample.label, vector: normalizedVector };
-    });
+    const recorded = dataBufferRef.current;
+    const samples = augmentation ? [...recorded, ...augmentSamples(recorded, augmentation)] : recorded;
+    // The raw capture is kept alongside the vector so it can be re-derived later
+    const newTrainingData: TrainingSample[] = samples.map(sample => ({
+      ...sample,
+      vector: toFeatureVector(sample.landmarks, { handedness: sample.handedness, otherHand: sample.otherHand })
+    }));
     trainingDataRef.current = [...trainingDataRef.current, ...newTrainingData];
-    setCollecting(false);
+    stopCollecting();
     dataBufferRef.current = [];
     setSampleCount(0);
+    setCoverage(null);
     return trainingDataRef.current;
   };
 
-  const saveDataset = () => {
+  const saveDataset = (handedness: HandLabel) => {
     const fullDataset = trainingDataRef.current;
     if (fullDataset.length === 0) return alert("No data.");
-    const blob = new Blob([JSON.stringify(fullDataset)], { type: "application/json" });
+    const blob = new Blob([serializeDataset(fullDataset, { device: navigator.userAgent, handedness })], { type: "application/json" });
     const a = document.createElement("a");
     a.href = URL.createObjectURL(blob);
     a.download = "custom_ml_dataset.json";
     a.click();
   }
 
-  const loadDataset = (onLoad: (data: TrainingSample[]) => void) => {
+  // "merge" appends to the current model (skipping exact duplicates), "replace" discards it
+  const loadDataset = (mode: "merge" | "replace", onLoad: (data: TrainingSample[]) => void) => {
     const input = document.createElement('input');
     input.type = 'file';
     input.accept = 'application/json';
@@ -919,10 +1067,20 @@ function useDataCollection(trainingDataRef: React.MutableRefObject<TrainingSampl
         const reader = new FileReader();
         reader.onload = (e) => {
           try {
-            const data = JSON.parse(e.target?.result as string) as TrainingSample[];
-            onLoad(data);
+            const { samples, metadata, migratedFrom } = parseDataset(e.target?.result as string);
+            if (migratedFrom) console.log(`Gamay: Re-derived ${samples.length} samples from feature schema v${migratedFrom.version}`);
+            if (metadata.formatVersion < DATASET_FORMAT_VERSION) console.log(`Gamay: Imported legacy dataset (format v${metadata.formatVersion})`);
+            const current = trainingDataRef.current;
+            if (mode === "merge") {
+              const merged = mergeSamples(current, samples);
+              console.log(`Gamay: Merged ${merged.length - current.length} new samples (${samples.length - (merged.length - current.length)} duplicates skipped)`);
+              onLoad(merged);
+            } else {
+              if (current.length > 0 && !confirm(`Replace the current ${current.length} samples with ${samples.length} from the file?`)) return;
+              onLoad(samples);
+            }
           } catch (error) {
-            alert("Failed to parse.");
+            alert(`Failed to load dataset: ${error instanceof Error ? error.message : error}`);
           }
         };
         reader.readAsText(file);
@@ -931,7 +1089,135 @@ function useDataCollection(trainingDataRef: React.MutableRefObject<TrainingSampl
     input.click();
   };
 
-  return { collecting, sampleCount, startCollecting, stopCollecting, addSample, saveDataset, addToModel, loadDataset };
+  return { collecting, sampleCount, wizard, dropped, coverage, startCollecting, stopCollecting, addSample, saveDataset, addToModel, loadDataset };
+}
+
+// --- useHandCalibration Hook ---
+// Walks through CALIBRATION_STEPS like the guided capture (countdown, then steady frames only)
+// and hands the derived thresholds to onComplete.
+function useHandCalibration(onComplete: (result: CalibrationResult) => void) {
+  const [wizard, setWizardState] = useState<CaptureWizardState | null>(null);
+  const wizardRef = useRef<CaptureWizardState | null>(null);
+  const framesRef = useRef<Partial<Record<CalibrationPose, CalibrationFrame[]>>>({});
+  const countdownTimerRef = useRef<number | null>(null);
+  const qualityFilter = useMemo(() => createCaptureQualityFilter(), []);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  const setWizard = (next: CaptureWizardState | null) => {
+    wizardRef.current = next;
+    setWizardState(next);
+  };
+
+  const clearCountdown = () => {
+    if (countdownTimerRef.current !== null) window.clearTimeout(countdownTimerRef.current);
+    countdownTimerRef.current = null;
+  };
+
+  useEffect(() => clearCountdown, []);
+
+  const beginStep = (step: number) => {
+    clearCountdown();
+    const tick = (countdown: number) => {
+      if (countdown === 0) {
+        qualityFilter.reset();
+        setWizard({ step, phase: "capturing", countdown: 0, stepSamples: 0 });
+        return;
+      }
+      setWizard({ step, phase: "countdown", countdown, stepSamples: 0 });
+      countdownTimerRef.current = window.setTimeout(() => tick(countdown - 1), 1000);
+    };
+    tick(CAPTURE_COUNTDOWN_SECONDS);
+  };
+
+  const start = () => {
+    framesRef.current = {};
+    beginStep(0);
+  };
+
+  const cancel = () => {
+    clearCountdown();
+    setWizard(null);
+  };
+
+  const addFrame = (raw: Landmark[], info?: FrameInfo) => {
+    const current = wizardRef.current;
+    if (current?.phase !== "capturing") return;
+    if (qualityFilter.check(raw, info?.timestamp ?? performance.now(), info?.handedness)) return;
+    const { pose, samples } = CALIBRATION_STEPS[current.step];
+    framesRef.current[pose] = [...(framesRef.current[pose] ?? []), { landmarks: raw, handedness: info?.handedness ?? null }];
+
+    const stepSamples = current.stepSamples + 1;
+    if (stepSamples < samples) {
+      setWizard({ ...current, stepSamples });
+    } else if (current.step + 1 < CALIBRATION_STEPS.length) {
+      beginStep(current.step + 1);
+    } else {
+      setWizard(null);
+      onCompleteRef.current(deriveCalibration(framesRef.current));
+    }
+  };
+
+  return { wizard, start, cancel, addFrame };
+}
+
+// --- useSessionRecorder Hook ---
+// Captures the raw landmark stream so a misrecognition can be replayed later
+function useSessionRecorder() {
+  const [recording, setRecording] = useState(false);
+  const [frameCount, setFrameCount] = useState(0);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+
+  const startRecording = (label: string) => {
+    recorderRef.current = createSessionRecorder(label || null);
+    setFrameCount(0);
+    setRecording(true);
+  };
+
+  const recordFrame = (raw: Landmark[], info: FrameInfo) => {
+    if (!recorderRef.current) return;
+    recorderRef.current.record(raw, info);
+    setFrameCount(recorderRef.current.frameCount());
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setRecording(false);
+    if (!recorder || recorder.frameCount() === 0) return;
+    const session = recorder.finish();
+    const blob = new Blob([serializeSession(session)], { type: "application/x-ndjson" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${session.label || "session"}_${Date.now()}.ndjson`;
+    a.click();
+  };
+
+  const loadSession = (onLoad: (session: LandmarkSession) => void) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,.ndjson,application/json';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+          try {
+            onLoad(parseSession(e.target?.result as string));
+          } catch (error) {
+            alert(`Failed to load session: ${(error as Error).message}`);
+          }
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  return { recording, frameCount, startRecording, recordFrame, stopRecording, loadSession };
 }
 
 // --- Voice to Sign Player ---
@@ -945,7 +1231,14 @@ function VoiceSignPlayer({ transcript, isListening, toggleListen }: { transcript
     if (!transcript) return;
     const words = transcript.trim().toUpperCase().split(/\s+/);
     const newQueue: string[] = [];
-    words.forEach(word => {
+    words.forEach((word, i) => {
+      // Two-word glosses (THANK-YOU) are spoken as two words
+      if (i > 0 && GESTURE_LIBRARY[`${words[i - 1]}-${word}`]) return;
+      const gloss = `${word}-${words[i + 1]}`;
+      if (i < words.length - 1 && GESTURE_LIBRARY[gloss]) {
+        newQueue.push(gloss);
+        return;
+      }
       const libKey = Object.keys(GESTURE_LIBRARY).find(k => k.toUpperCase() === word);
       if (libKey) newQueue.push(libKey);
       else {
@@ -1044,22 +1337,143 @@ const COMMON_WORDS = [
   "HELLO", "WORLD", "GOOD", "MORNING", "AFTERNOON", "EVENING", "PLEASE", "THANK", "SORRY", "YES", "HELP", "LOVE", "HAPPY", "HOME", "WORK", "SCHOOL", "FAMILY", "FRIEND", "NAME", "NICE", "MEET", "LATER", "SEE", "TOMORROW", "TODAY", "YESTERDAY", "WEEK", "MONTH", "YEAR", "WHERE", "WHY", "BECAUSE", "WANT", "NEED", "FEEL", "BETTER", "BEST", "MUCH", "SOME", "ANY", "EVERY", "RIGHT", "LEFT", "STOP", "START", "FINISH"
 ].sort();
 
-// --- AMBIGUITY / CONFUSION SETS ---
-const CONFUSION_SETS: Record<string, string[]> = {
-  "M": ["N", "T", "S", "A"],
-  "N": ["M", "T", "S"],
-  "T": ["M", "N", "S"],
-  "S": ["A", "E", "M", "N"],
-  "A": ["S", "E", "T"],
-  "E": ["S", "A"],
-  "K": ["V", "U", "2"],
-  "V": ["K", "U", "R"],
-  "U": ["K", "V", "R"],
-  "R": ["U", "V"],
-  "2": ["V", "K"],
-  "5": ["4"],
-  "4": ["5"]
-};
+// --- AMBIGUITY / CORRECTIONS ---
+// Runners-up offered in the "Is that wrong?" popup after a sign is added
+const MAX_ALTERNATES = 4;
+
+// --- useModelProfiles Hook ---
+// Persists the KNN dataset to IndexedDB under the selected profile and restores it on load.
+// loadMLModel / clearModel keep working as before; whatever they leave in the model is saved.
+function useModelProfiles(
+  trainingData: TrainingSample[],
+  loadMLModel: (data: TrainingSample[]) => void,
+  loadCalibration: (calibration: HandCalibration | null) => void
+) {
+  const storeRef = useRef<ProfileStore | null>(null);
+  const loadModelRef = useRef(loadMLModel);
+  const loadCalibrationRef = useRef(loadCalibration);
+  // Id whose samples are in the model; nothing is saved until this matches the active id,
+  // so the empty model at startup never overwrites a stored profile
+  const loadedIdRef = useRef<string | null>(null);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadModelRef.current = loadMLModel;
+    loadCalibrationRef.current = loadCalibration;
+  }, [loadMLModel, loadCalibration]);
+
+  const refresh = useCallback(async () => {
+    if (storeRef.current) setProfiles(await storeRef.current.list());
+  }, []);
+
+  const activate = useCallback(async (id: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    const profile = await store.get(id);
+    if (!profile) return;
+    await store.setActiveId(id);
+    loadedIdRef.current = id;
+    setActiveId(id);
+    loadModelRef.current(profile.samples);
+    loadCalibrationRef.current(profile.calibration ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!supportsProfileStore()) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const store = await openProfileStore();
+        if (cancelled) return store.close();
+        storeRef.current = store;
+        let id = await store.getActiveId();
+        if (!id || !(await store.get(id))) {
+          const existing = await store.list();
+          id = existing[0]?.id ?? (await store.create("Default")).id;
+        }
+        await activate(id);
+        await refresh();
+      } catch (error) {
+        console.error("Gamay: Could not open profile storage", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      storeRef.current?.close();
+      storeRef.current = null;
+    };
+  }, [activate, refresh]);
+
+  // Auto-save: every change to the model's data lands in the active profile
+  useEffect(() => {
+    const store = storeRef.current;
+    if (!store || !activeId || loadedIdRef.current !== activeId) return;
+    store.saveSamples(activeId, trainingData)
+      .then(refresh)
+      .catch(error => console.error("Gamay: Could not save profile", error));
+  }, [trainingData, activeId, refresh]);
+
+  const activeName = profiles.find(p => p.id === activeId)?.name ?? "";
+
+  const createProfile = async () => {
+    const store = storeRef.current;
+    const name = prompt("New profile name")?.trim();
+    if (!store || !name) return;
+    await activate((await store.create(name)).id);
+    await refresh();
+  };
+
+  const renameProfile = async () => {
+    const store = storeRef.current;
+    const name = prompt("Rename profile", activeName)?.trim();
+    if (!store || !activeId || !name) return;
+    await store.rename(activeId, name);
+    await refresh();
+  };
+
+  const duplicateProfile = async () => {
+    const store = storeRef.current;
+    const name = prompt("Name for the copy", `${activeName} (copy)`)?.trim();
+    if (!store || !activeId || !name) return;
+    await activate((await store.duplicate(activeId, name)).id);
+    await refresh();
+  };
+
+  // Applied right away; stored with the active profile when there is one
+  const saveCalibration = async (calibration: HandCalibration | null) => {
+    loadCalibrationRef.current(calibration);
+    const store = storeRef.current;
+    if (!store || !activeId) return;
+    try {
+      await store.saveCalibration(activeId, calibration);
+    } catch (error) {
+      console.error("Gamay: Could not save calibration", error);
+    }
+  };
+
+  const deleteProfile = async () => {
+    const store = storeRef.current;
+    if (!store || !activeId || !confirm(`Delete profile "${activeName}" and all its samples?`)) return;
+    loadedIdRef.current = null; // Don't let a pending save resurrect it
+    await store.remove(activeId);
+    const remaining = await store.list();
+    await activate(remaining[0]?.id ?? (await store.create("Default")).id);
+    await refresh();
+  };
+
+  return {
+    available: profiles.length > 0,
+    profiles,
+    activeId,
+    selectProfile: activate,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    saveCalibration
+  };
+}
 
 // --- useAutocomplete Hook ---
 function useAutocomplete(sentence: string) {
@@ -1099,8 +1513,14 @@ export default function ASLRecorder() {
 
   const predictor = usePredictionModel();
   const collector = useDataCollection(predictor.trainingDataRef);
+  const profiles = useModelProfiles(predictor.trainingData, predictor.loadMLModel, predictor.setCalibration);
+  const calibrator = useHandCalibration((result: CalibrationResult) => {
+    profiles.saveCalibration(result.calibration);
+    if (result.warnings.length > 0) alert(`Calibration saved, but some thresholds kept their defaults:\n${result.warnings.join("\n")}`);
+  });
   const tts = useTextToSpeech();
   const speech = useSpeechToSign();
+  const sessionRecorder = useSessionRecorder();
 
   const [inputLabel, setInputLabel] = useState("");
   const [sentence, setSentence] = useState("");
@@ -1136,7 +1556,22 @@ export default function ASLRecorder() {
     );
   }, [searchQuery]);
 
-  const resetCamSettings = () => setCamSettings({ brightness: 100, contrast: 100, saturation: 100 });
+  const [smoothingSettings, setSmoothingSettings] = useState<SmoothingSettings>(DEFAULT_SMOOTHING_SETTINGS);
+  const [leftHanded, setLeftHanded] = useState(false);
+  const dominantHand: HandLabel = leftHanded ? "Left" : "Right";
+  const [bodyTracking, setBodyTracking] = useState<BodyTracking>("off");
+  const handleBodyTrackingFailed = useCallback(() => {
+    setBodyTracking("off");
+    alert("Body tracking could not be loaded, so it has been turned off.");
+  }, []);
+  const [twoHandedSign, setTwoHandedSign] = useState(false);
+  const [augmentEnabled, setAugmentEnabled] = useState(false);
+  const [augmentation, setAugmentation] = useState<AugmentationOptions>(DEFAULT_AUGMENTATION_OPTIONS);
+
+  const resetCamSettings = () => {
+    setCamSettings({ brightness: 100, contrast: 100, saturation: 100 });
+    setSmoothingSettings(DEFAULT_SMOOTHING_SETTINGS);
+  };
 
   const lastAddedTimeRef = useRef<number>(0);
   const alternatesTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Track timeout to prevent premature clearing
@@ -1165,10 +1600,13 @@ export default function ASLRecorder() {
     });
   };
 
-  const handleFrame = useCallback((vector: number[], rawData: Landmark[]) => {
-    if (collector.collecting) collector.addSample(vector, rawData);
+  const handleFrame = useCallback((vector: number[], rawData: Landmark[], info: FrameInfo) => {
+    // Sessions keep the unsmoothed stream so replays go through the same smoothing stage
+    if (sessionRecorder.recording) sessionRecorder.recordFrame(info.raw ?? rawData, info);
+    if (collector.collecting) collector.addSample(vector, rawData, info);
+    if (calibrator.wizard) calibrator.addFrame(rawData, info);
     if (predictor.modelType !== "none") {
-      const result = predictor.predict(vector, rawData);
+      const result = predictor.predict(vector, rawData, info);
       if (result && result !== predictor.detectedLabel) {
         predictor.setDetectedLabel(result);
         tts.speak(result);
@@ -1185,9 +1623,10 @@ export default function ASLRecorder() {
              // Clear previous timeout if exists
              if (alternatesTimeoutRef.current) clearTimeout(alternatesTimeoutRef.current);
 
-             // Check for alternates
-             if (CONFUSION_SETS[result]) {
-                 setAlternates(CONFUSION_SETS[result]);
+             // Offer what the recognizers ranked next
+             const runnersUp = predictor.runnersUpRef.current;
+             if (runnersUp.length > 0) {
+                 setAlternates(runnersUp);
                  // Auto-hide alternates after 8 seconds (User requested >5s)
                  alternatesTimeoutRef.current = setTimeout(() => setAlternates([]), 8000);
              } else {
@@ -1199,18 +1638,25 @@ export default function ASLRecorder() {
         }
       }
     }
-  }, [collector, predictor, tts, sentence]);
+  }, [collector, calibrator, predictor, tts, sentence, sessionRecorder]);
 
-  const { status: cameraStatus, isScanning } = useLandmarker({
+  const { status: cameraStatus, isScanning, isReplaying, startReplay, stopReplay } = useLandmarker({
     videoRef,
     canvasRef,
-    onFrameProcessed: handleFrame
+    onFrameProcessed: handleFrame,
+    smoothing: smoothingSettings,
+    trainingData: predictor.modelType === "ml" || predictor.modelType === "hybrid" ? predictor.modelData : NO_TRAINING_DATA,
+    classifier: predictor.classifierConfig,
+    strictness: predictor.strictness,
+    dominantHand,
+    bodyTracking,
+    onBodyTrackingFailed: handleBodyTrackingFailed
   });
 
   const handleAddToModel = () => {
-    const updatedData = collector.addToModel();
+    const updatedData = collector.addToModel(augmentEnabled ? augmentation : null);
     if (updatedData) {
-      predictor.setModelType("ml");
+      if (predictor.modelType !== "hybrid") predictor.setModelType("ml");
       predictor.loadMLModel(updatedData);
     }
   };
@@ -1248,6 +1694,9 @@ export default function ASLRecorder() {
             isScanning={isScanning}
             status={cameraStatus}
             verificationProgress={predictor.verificationProgress}
+            isReplaying={isReplaying}
+            isMoving={predictor.isMoving}
+            isUnknown={predictor.isUnknown}
           />
 
           <div className="flex gap-2 md:gap-6 text-xs md:text-sm bg-muted/50 px-4 py-2 rounded-full border shadow-sm items-center w-full justify-between md:justify-center flex-wrap">
@@ -1349,14 +1798,59 @@ export default function ASLRecorder() {
                     <Button
                       className="w-full"
                       variant={collector.collecting ? "destructive" : "secondary"}
-                      onClick={() => collector.collecting ? collector.stopCollecting() : collector.startCollecting(inputLabel)}
+                      onClick={() => collector.collecting ? collector.stopCollecting() : collector.startCollecting(inputLabel, twoHandedSign)}
                       disabled={!inputLabel}
                     >
-                      {collector.collecting ? `Stop Recording (${collector.sampleCount})` : "Hold to Record"}
+                      {collector.collecting ? `Cancel Capture (${collector.sampleCount})` : "Start Guided Capture"}
                     </Button>
                   </div>
                 </div>
 
+                {collector.wizard && <CaptureWizardPanel wizard={collector.wizard} dropped={collector.dropped} coverage={collector.coverage} />}
+
+                <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    className="accent-primary"
+                    checked={twoHandedSign}
+                    onChange={(e) => setTwoHandedSign(e.target.checked)}
+                    disabled={collector.collecting}
+                  />
+                  Two-handed sign (only captures frames with both hands visible)
+                </label>
+
+                {/* AUGMENTATION (Synthetic variations added with the recording) */}
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      className="accent-primary"
+                      checked={augmentEnabled}
+                      onChange={(e) => setAugmentEnabled(e.target.checked)}
+                    />
+                    Augment samples when adding (small tilts, stretch and noise)
+                  </label>
+                  {augmentEnabled && (
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-2 pl-5 text-[10px] text-muted-foreground">
+                      {([
+                        ["copies", "Copies per sample", 1, 10, 1],
+                        ["rotationDeg", "Max tilt (°)", 0, 30, 1],
+                        ["scaleJitter", "Stretch (±)", 0, 0.3, 0.01],
+                        ["noise", "Noise (palm lengths)", 0, 0.1, 0.005]
+                      ] as [keyof AugmentationOptions, string, number, number, number][]).map(([key, label, min, max, step]) => (
+                        <div key={key} className="space-y-1">
+                          <div className="flex justify-between"><span>{label}</span><span>{String(augmentation[key])}</span></div>
+                          <Slider
+                            min={min} max={max} step={step}
+                            value={Number(augmentation[key])}
+                            onChange={(e) => setAugmentation(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <Button
                   variant="default"
                   onClick={handleAddToModel}
@@ -1367,8 +1861,70 @@ export default function ASLRecorder() {
                 </Button>
 
                 <div className="grid grid-cols-2 gap-2 mt-2">
-                  <Button variant="outline" size="sm" onClick={collector.saveDataset}><Save className="w-3 h-3 mr-2" /> Save File</Button>
-                  <Button variant="outline" size="sm" onClick={() => collector.loadDataset(predictor.loadMLModel)}><Database className="w-3 h-3 mr-2" /> Load File</Button>
+                  <Button variant="outline" size="sm" className="col-span-2" onClick={() => collector.saveDataset(dominantHand)}><Save className="w-3 h-3 mr-2" /> Save File</Button>
+                  <Button variant="outline" size="sm" onClick={() => collector.loadDataset("merge", predictor.loadMLModel)}><Database className="w-3 h-3 mr-2" /> Merge File</Button>
+                  <Button variant="outline" size="sm" onClick={() => collector.loadDataset("replace", predictor.loadMLModel)}><RefreshCcw className="w-3 h-3 mr-2" /> Replace File</Button>
+                </div>
+
+                <Separator />
+
+                {/* DATASET BROWSER (Inspect & fix samples) */}
+                <DatasetBrowser samples={predictor.trainingData} onChange={predictor.loadMLModel} />
+
+                <Separator />
+
+                {/* EVALUATION (Cross-validation report) */}
+                <EvaluationPanel samples={predictor.trainingData} classifier={predictor.classifierConfig} strictness={predictor.strictness} />
+
+                <Separator />
+
+                {/* SESSION RECORD / REPLAY (Regression testing) */}
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-muted-foreground">Landmark Sessions</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant={sessionRecorder.recording ? "destructive" : "outline"}
+                      size="sm"
+                      onClick={() => sessionRecorder.recording ? sessionRecorder.stopRecording() : sessionRecorder.startRecording(inputLabel)}
+                      disabled={isReplaying}
+                    >
+                      {sessionRecorder.recording
+                        ? <><Square className="w-3 h-3 mr-2" /> Stop ({sessionRecorder.frameCount})</>
+                        : <><Circle className="w-3 h-3 mr-2" /> Record Session</>}
+                    </Button>
+                    <Button
+                      variant={isReplaying ? "destructive" : "outline"}
+                      size="sm"
+                      onClick={() => isReplaying ? stopReplay() : sessionRecorder.loadSession(startReplay)}
+                      disabled={sessionRecorder.recording}
+                    >
+                      {isReplaying ? <><Square className="w-3 h-3 mr-2" /> Stop Replay</> : <><Play className="w-3 h-3 mr-2" /> Replay Session</>}
+                    </Button>
+                  </div>
+                </div>
+
+                {/* CUSTOM MOTION SIGNS (Trajectory templates) */}
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-muted-foreground">Motion Signs</label>
+                  <Button
+                    variant={predictor.capturingMotion ? "destructive" : "outline"}
+                    size="sm"
+                    className="w-full"
+                    onClick={() => {
+                      if (predictor.capturingMotion) predictor.finishMotionCapture(inputLabel);
+                      else if (!inputLabel) alert("Enter label");
+                      else predictor.startMotionCapture();
+                    }}
+                    disabled={predictor.modelType === "none"}
+                  >
+                    {predictor.capturingMotion
+                      ? <><Square className="w-3 h-3 mr-2" /> Save Motion</>
+                      : <><Spline className="w-3 h-3 mr-2" /> Record Motion</>}
+                  </Button>
+                  <p className="text-[10px] text-muted-foreground">
+                    Hold the handshape, draw the sign once, then save. J and Z are built in.
+                    {predictor.customMotionLabels.length > 0 && ` Custom: ${predictor.customMotionLabels.join(", ")}`}
+                  </p>
                 </div>
               </div>
             </details>
@@ -1385,13 +1941,19 @@ export default function ASLRecorder() {
               <h3 className="font-semibold flex items-center gap-2 text-sm">
                 <Brain className="w-4 h-4 text-purple-600" /> Model Mode
               </h3>
-              <div className="grid grid-cols-2 gap-2 bg-muted p-1 rounded-lg">
+              <div className="grid grid-cols-3 gap-2 bg-muted p-1 rounded-lg">
                 <button
                   onClick={() => predictor.setModelType("geometric")}
                   className={`text-xs font-bold py-2 rounded-md transition-all ${predictor.modelType === 'geometric' ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
                 >
                   Geometric
                 </button>
+                <button
+                  onClick={() => predictor.setModelType("hybrid")}
+                  className={`text-xs font-bold py-2 rounded-md transition-all ${predictor.modelType === 'hybrid' ? 'bg-indigo-600 text-white shadow' : 'text-muted-foreground hover:bg-background/50'}`}
+                >
+                  Hybrid
+                </button>
                 <button
                   onClick={() => predictor.setModelType("ml")}
                   className={`text-xs font-bold py-2 rounded-md transition-all ${predictor.modelType === 'ml' ? 'bg-purple-600 text-white shadow' : 'text-muted-foreground hover:bg-background/50'}`}
@@ -1399,10 +1961,62 @@ export default function ASLRecorder() {
                   Machine Learning
                 </button>
               </div>
+              {predictor.modelType === "hybrid" && (
+                <p className="text-[10px] text-muted-foreground">
+                  Built-in letters stay active. Trained signs are added, and a trained built-in letter overrides its rule unless set to share.
+                </p>
+              )}
+              {(predictor.modelType === "ml" || predictor.modelType === "hybrid") && (
+                <label className="flex items-center gap-2 text-xs" title="A synthetic dataset of most of A-Z and 0-9, generated from a hand model, that the custom model starts from. It leaves out J and Z (movements) and H, 0, 2, 6 and 9 (same handshape as U, O, V, W and F). Your samples are added on top.">
+                  <input
+                    type="checkbox"
+                    className="accent-primary"
+                    checked={predictor.includeBaseline}
+                    onChange={(e) => predictor.setIncludeBaseline(e.target.checked)}
+                  />
+                  Baseline alphabet v{BASELINE_VERSION} ({BASELINE_LABELS.length} signs)
+                </label>
+              )}
             </div>
 
+            {(predictor.modelType === "ml" || predictor.modelType === "hybrid") && (
+              <ClassifierSettings
+                config={predictor.classifierConfig}
+                onChange={predictor.setClassifierConfig}
+                strictness={predictor.strictness}
+                onStrictnessChange={predictor.setStrictness}
+                samples={predictor.trainingData}
+              />
+            )}
+
             <Separator />
 
+            {/* PROFILES (Saved datasets, restored on load) */}
+            {profiles.available && (
+              <div className="space-y-2">
+                <h4 className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
+                  <Users className="w-3 h-3" /> Profile
+                </h4>
+                <select
+                  className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+                  value={profiles.activeId ?? ""}
+                  onChange={(e) => profiles.selectProfile(e.target.value)}
+                >
+                  {profiles.profiles.map(p => (
+                    <option key={p.id} value={p.id}>{p.name} ({p.sampleCount} samples)</option>
+                  ))}
+                </select>
+                <div className="grid grid-cols-4 gap-1">
+                  <Button variant="outline" size="sm" className="h-7 px-1 text-[10px]" onClick={profiles.createProfile}>New</Button>
+                  <Button variant="outline" size="sm" className="h-7 px-1 text-[10px]" onClick={profiles.renameProfile}>Rename</Button>
+                  <Button variant="outline" size="sm" className="h-7 px-1 text-[10px]" onClick={profiles.duplicateProfile}>Copy</Button>
+                  <Button variant="ghost" size="sm" className="h-7 px-1 text-[10px] text-destructive" onClick={profiles.deleteProfile}>Delete</Button>
+                </div>
+              </div>
+            )}
+
+            {profiles.available && <Separator />}
+
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <h4 className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
@@ -1416,7 +2030,17 @@ export default function ASLRecorder() {
                   predictor.trainedClasses.map(cls => (
                     <div key={cls} className="text-xs flex justify-between items-center bg-background p-1.5 rounded border">
                       <span className="font-semibold">{cls}</span>
-                      <span className="text-[10px] text-muted-foreground">Trained</span>
+                      {predictor.modelType === "hybrid" && GEOMETRIC_LABELS.includes(cls) ? (
+                        <button
+                          className="text-[10px] text-indigo-600 hover:underline"
+                          onClick={() => predictor.toggleSharedLabel(cls)}
+                          title="Whether the built-in rule for this letter still votes"
+                        >
+                          {predictor.sharedLabels.includes(cls) ? "Shares with rule" : "Overrides rule"}
+                        </button>
+                      ) : (
+                        <span className="text-[10px] text-muted-foreground">{predictor.modelType === "hybrid" ? "New sign" : "Trained"}</span>
+                      )}
                     </div>
                   ))
                 ) : (
@@ -1456,6 +2080,134 @@ export default function ASLRecorder() {
                 </div>
               ))}
             </div>
+
+            <Separator />
+
+            {/* SIGNING HAND (Which hand is recognised when two are in view) */}
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] text-muted-foreground uppercase">Signing Hand</span>
+              <div className="grid grid-cols-2 gap-1 bg-muted p-1 rounded-lg">
+                {[{ label: "Right-handed", left: false }, { label: "Left-handed", left: true }].map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setLeftHanded(option.left)}
+                    className={`text-[10px] font-bold py-1.5 rounded-md transition-all ${leftHanded === option.left ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* HAND CALIBRATION (Personal thresholds for the geometric rules) */}
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] text-muted-foreground uppercase">Hand Calibration</span>
+              {calibrator.wizard ? (
+                <CalibrationPanel wizard={calibrator.wizard} onCancel={calibrator.cancel} />
+              ) : (
+                <>
+                  <p className="text-[10px] text-muted-foreground">
+                    {predictor.calibration
+                      ? `Personal thresholds from ${new Date(predictor.calibration.createdAt).toLocaleDateString()}, saved with this profile.`
+                      : "Using the default thresholds. Four quick poses tune the built-in rules to your hand."}
+                  </p>
+                  <div className="grid grid-cols-2 gap-1">
+                    <Button variant="outline" size="sm" className="h-7 text-[10px]" onClick={calibrator.start}>
+                      {predictor.calibration ? "Re-run" : "Calibrate"}
+                    </Button>
+                    <Button
+                      variant="outline" size="sm" className="h-7 text-[10px]"
+                      disabled={!predictor.calibration}
+                      onClick={() => confirm("Go back to the default thresholds?") && profiles.saveCalibration(null)}
+                    >
+                      Reset
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* BODY TRACKING (Sign location relative to the face / shoulders) */}
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] text-muted-foreground uppercase">Body Tracking</span>
+              <div className="grid grid-cols-3 gap-1 bg-muted p-1 rounded-lg">
+                {([["off", "Off"], ["face", "Face"], ["pose", "Face + Body"]] as [BodyTracking, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setBodyTracking(mode)}
+                    className={`text-[10px] font-bold py-1.5 rounded-md transition-all ${bodyTracking === mode ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Places signs at the forehead, chin or chest. Runs a second model on every frame, so it lowers the frame rate.
+              </p>
+            </div>
+
+            <Separator />
+
+            {/* LANDMARK SMOOTHING (Jitter Reduction) */}
+            <div className="space-y-3">
+              <div className="flex flex-col gap-1">
+                <span className="text-[10px] text-muted-foreground uppercase">Smoothing</span>
+                <div className="grid grid-cols-3 gap-1 bg-muted p-1 rounded-lg">
+                  {([["none", "Off"], ["ema", "EMA"], ["oneEuro", "One Euro"]] as [SmoothingMethod, string][]).map(([method, name]) => (
+                    <button
+                      key={method}
+                      onClick={() => setSmoothingSettings(prev => ({ ...prev, method }))}
+                      className={`text-[10px] font-bold py-1.5 rounded-md transition-all ${smoothingSettings.method === method ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {smoothingSettings.method === "ema" && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-muted-foreground uppercase">
+                    <span>New frame weight</span>
+                    <span>{smoothingSettings.alpha.toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    min="0.05" max="1" step="0.05"
+                    value={smoothingSettings.alpha}
+                    onChange={(e) => setSmoothingSettings(prev => ({ ...prev, alpha: parseFloat(e.target.value) }))}
+                  />
+                </div>
+              )}
+              {smoothingSettings.method === "oneEuro" && (
+                <>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] text-muted-foreground uppercase">
+                      <span>Min cutoff (Hz)</span>
+                      <span>{smoothingSettings.minCutoff.toFixed(2)}</span>
+                    </div>
+                    <Slider
+                      min="0.05" max="5" step="0.05"
+                      value={smoothingSettings.minCutoff}
+                      onChange={(e) => setSmoothingSettings(prev => ({ ...prev, minCutoff: parseFloat(e.target.value) }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] text-muted-foreground uppercase">
+                      <span>Beta (speed)</span>
+                      <span>{smoothingSettings.beta.toFixed(2)}</span>
+                    </div>
+                    <Slider
+                      min="0" max="5" step="0.05"
+                      value={smoothingSettings.beta}
+                      onChange={(e) => setSmoothingSettings(prev => ({ ...prev, beta: parseFloat(e.target.value) }))}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
           </Card>
         </div>
 
@@ -1566,7 +2318,7 @@ function FeedbackModal({ children, onClose }: { children: React.ReactNode, onClo
   );
 }
 
-function VideoStage({ videoRef, canvasRef, detectedLabel, confidence, isLocked, settings, isScanning, status, verificationProgress }: VideoStageProps) {
+function VideoStage({ videoRef, canvasRef, detectedLabel, confidence, isLocked, settings, isScanning, status, verificationProgress, isReplaying, isMoving, isUnknown }: VideoStageProps) {
   const [progress, setProgress] = useState(0);
 
   useEffect(() => {
@@ -1655,6 +2407,21 @@ function VideoStage({ videoRef, canvasRef, detectedLabel, confidence, isLocked,
       <div className="absolute top-2 right-2">
         {isScanning && <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse shadow-[0_0_8px_red]" />}
       </div>
+      {isReplaying && (
+        <div className="absolute top-2 left-2 z-30 px-2 py-0.5 rounded-full bg-blue-600 text-white text-[10px] font-bold uppercase tracking-wider flex items-center gap-1">
+          <Play className="w-3 h-3" /> Replay
+        </div>
+      )}
+      {isMoving && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-30 px-2 py-0.5 rounded-full bg-amber-500 text-white text-[10px] font-bold uppercase tracking-wider flex items-center gap-1">
+          <Move className="w-3 h-3" /> Moving
+        </div>
+      )}
+      {isUnknown && !isMoving && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-30 px-2 py-0.5 rounded-full bg-slate-500 text-white text-[10px] font-bold uppercase tracking-wider flex items-center gap-1">
+          <CircleHelp className="w-3 h-3" /> Unknown sign
+        </div>
+      )}
       {detectedLabel && (
         <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex flex-col items-center gap-1 animate-in fade-in zoom-in duration-200 pointer-events-none">
           <div className={`px-6 py-2 text-white rounded-full shadow-lg text-xl font-bold whitespace-nowrap flex items-center gap-2 ${isLocked ? "bg-green-600" : "bg-purple-600/90"}`}>
@@ -1746,4 +2513,544 @@ function SentenceDisplay({ sentence, onClear, onBackspace }: { sentence: string,
       )}
     </Card>
   );
-}
\ No newline at end of file
+}
+// --- Guided Capture (Training Studio) ---
+// Shows the current step's prompt and countdown, which frames the quality checks dropped,
+// and how well the label is covered so far (existing samples included).
+
+const DROP_REASONS: [CaptureRejection, string][] = [["motion", "moving"], ["low-score", "unsure tracking"], ["no-hand", "no hand"]];
+
+function CaptureWizardPanel({ wizard, dropped, coverage }: {
+  wizard: CaptureWizardState,
+  dropped: Partial<Record<CaptureRejection, number>>,
+  coverage: Coverage | null
+}) {
+  const step = CAPTURE_STEPS[wizard.step];
+  const droppedText = DROP_REASONS.filter(([reason]) => dropped[reason]).map(([reason, label]) => `${dropped[reason]} ${label}`).join(", ");
+
+  return (
+    <div className="space-y-2 p-3 border rounded-md bg-muted/20 text-xs">
+      <div className="flex justify-between items-center">
+        <span className="font-bold uppercase text-muted-foreground">
+          {wizard.phase === "done" ? "Capture complete" : `Step ${wizard.step + 1} of ${CAPTURE_STEPS.length}`}
+        </span>
+        {wizard.phase === "capturing" && <span className="text-[10px] text-red-500 font-bold">REC {wizard.stepSamples}/{step.samples}</span>}
+      </div>
+
+      {wizard.phase === "done" ? (
+        <p className="text-foreground">Review the coverage below, then press <b>Add to Model</b>.</p>
+      ) : (
+        <div className="flex items-center gap-3">
+          {wizard.phase === "countdown" && (
+            <span className="text-3xl font-bold text-primary w-8 text-center">{wizard.countdown}</span>
+          )}
+          <p className="text-sm text-foreground font-medium">{step.prompt}</p>
+        </div>
+      )}
+
+      {wizard.phase === "countdown" && wizard.countdown === CAPTURE_COUNTDOWN_SECONDS && (
+        <p className="text-[10px] text-muted-foreground">Get into position. Capturing starts when the countdown ends.</p>
+      )}
+
+      {droppedText && <p className="text-[10px] text-amber-600">Skipped frames: {droppedText}. Hold the sign still.</p>}
+
+      {coverage && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>Coverage ({coverage.count} samples)</span>
+            <span className={coverage.sufficient ? "text-green-600 font-bold" : ""}>
+              {coverage.sufficient ? "Sufficiently covered" : `${Math.round(coverage.progress * 100)}%`}
+            </span>
+          </div>
+          <div className="h-1.5 w-full bg-secondary rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${coverage.sufficient ? "bg-green-500" : "bg-yellow-500"}`}
+              style={{ width: `${Math.round(coverage.progress * 100)}%` }}
+            />
+          </div>
+          {!coverage.sufficient && <p className="text-[10px] text-muted-foreground">Needs {coverage.missing.join(", ")}.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Hand Calibration (Camera card) ---
+
+function CalibrationPanel({ wizard, onCancel }: { wizard: CaptureWizardState, onCancel: () => void }) {
+  const step = CALIBRATION_STEPS[wizard.step];
+  return (
+    <div className="space-y-2 p-2 border rounded-md bg-muted/20 text-xs">
+      <div className="flex justify-between items-center">
+        <span className="font-bold uppercase text-muted-foreground text-[10px]">Pose {wizard.step + 1} of {CALIBRATION_STEPS.length}</span>
+        {wizard.phase === "capturing" && <span className="text-[10px] text-red-500 font-bold">REC {wizard.stepSamples}/{step.samples}</span>}
+      </div>
+      <div className="flex items-center gap-3">
+        {wizard.phase === "countdown" && <span className="text-2xl font-bold text-primary w-6 text-center">{wizard.countdown}</span>}
+        <p className="text-foreground font-medium">{step.prompt}</p>
+      </div>
+      <Button variant="ghost" size="sm" className="h-6 w-full text-[10px]" onClick={onCancel}>Cancel</Button>
+    </div>
+  );
+}
+
+// --- Dataset Browser (Training Studio) ---
+// Lists every class, previews its samples and lets them be deleted or relabelled.
+// Edits go back through onChange, so they land in the model (and the active profile).
+
+const THUMBNAIL_LIMIT = 120; // Per class; large classes only show their first samples
+const OUTLIER_VIEW = "__outliers__";
+
+// Scales the hands up to fill a thumbnail, keeping their proportions and relative placement
+const fitToThumbnail = (hands: Landmark[][]): Landmark[][] => {
+  const points = hands.flat();
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2;
+  return hands.map(hand => hand.map(p => ({ x: 0.5 + ((p.x - cx) / size) * 0.8, y: 0.5 + ((p.y - cy) / size) * 0.8, z: p.z })));
+};
+
+function SampleThumbnail({ sample }: { sample: TrainingSample }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d") ?? null;
+    if (!ctx || !sample.landmarks) return;
+    const [hand, other] = fitToThumbnail(sample.otherHand ? [sample.landmarks, sample.otherHand] : [sample.landmarks]);
+    drawLandmarks(ctx, hand);
+    if (other) drawLandmarks(ctx, other, OTHER_HAND_COLORS, false);
+  }, [sample]);
+
+  if (!sample.landmarks) {
+    return <div className="w-full aspect-square flex items-center justify-center text-[9px] text-muted-foreground bg-muted rounded">No preview</div>;
+  }
+  // Mirrored like the live video
+  return <canvas ref={canvasRef} width={96} height={96} className="w-full aspect-square bg-black/80 rounded" style={{ transform: 'scaleX(-1)' }} />;
+}
+
+function DatasetBrowser({ samples, onChange }: { samples: TrainingSample[], onChange: (samples: TrainingSample[]) => void }) {
+  const [view, setView] = useState<string | null>(null);
+  // Outlier indices refer to the dataset they were computed on, so any edit clears them
+  const [outliers, setOutliers] = useState<SampleOutlier[] | null>(null);
+
+  const classes = useMemo(() => {
+    const counts: Record<string, number> = {};
+    samples.forEach(s => { counts[s.label] = (counts[s.label] ?? 0) + 1; });
+    return Object.entries(counts).sort(([a], [b]) => a.localeCompare(b));
+  }, [samples]);
+
+  const outlierByIndex = useMemo(() => new Map((outliers ?? []).map(o => [o.index, o])), [outliers]);
+  const augmentedCount = useMemo(() => samples.filter(s => s.augmented).length, [samples]);
+
+  const visible = samples
+    .map((sample, index) => ({ sample, index }))
+    .filter(({ sample, index }) => view === OUTLIER_VIEW ? outlierByIndex.has(index) : sample.label === view);
+
+  const update = (next: TrainingSample[]) => {
+    setOutliers(null);
+    if (view === OUTLIER_VIEW) setView(null);
+    onChange(next);
+  };
+
+  const deleteSample = (index: number) => update(samples.filter((_, i) => i !== index));
+
+  const deleteClass = (label: string, count: number) => {
+    if (!confirm(`Delete all ${count} "${label}" samples?`)) return;
+    if (view === label) setView(null);
+    update(samples.filter(s => s.label !== label));
+  };
+
+  const relabelSample = (index: number) => {
+    const label = prompt("New label", samples[index].label)?.trim();
+    if (!label || label === samples[index].label) return;
+    update(samples.map((s, i) => i === index ? { ...s, label } : s));
+  };
+
+  const removeAugmented = () => {
+    if (!confirm(`Remove all ${augmentedCount} augmented samples?`)) return;
+    update(samples.filter(s => !s.augmented));
+  };
+
+  const flagOutliers = () => {
+    const found = findOutliers(samples);
+    setOutliers(found);
+    setView(found.length > 0 ? OUTLIER_VIEW : view);
+    if (found.length === 0) alert("No outliers found.");
+  };
+
+  if (samples.length === 0) {
+    return <p className="text-[10px] text-center italic text-muted-foreground py-2">No samples yet. Record a sign and add it to the model.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
+          <Images className="w-3 h-3" /> Dataset ({samples.length})
+        </label>
+        <span className="flex gap-1">
+          {augmentedCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={removeAugmented} title="Keep only recorded samples">
+              Remove {augmentedCount} Augmented
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={flagOutliers}>
+            <TriangleAlert className="w-3 h-3 mr-1" /> Find Outliers
+          </Button>
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {outliers && outliers.length > 0 && (
+          <button
+            onClick={() => setView(view === OUTLIER_VIEW ? null : OUTLIER_VIEW)}
+            className={`text-[10px] font-bold px-2 py-1 rounded-md border transition-all ${view === OUTLIER_VIEW ? 'bg-amber-500 text-white border-amber-500' : 'text-amber-600 border-amber-500/50 hover:bg-amber-500/10'}`}
+          >
+            Outliers {outliers.length}
+          </button>
+        )}
+        {classes.map(([label, count]) => (
+          <span
+            key={label}
+            className={`text-[10px] font-bold flex items-center rounded-md border transition-all ${view === label ? 'bg-primary text-primary-foreground border-primary' : 'bg-background hover:bg-muted'}`}
+          >
+            <button className="pl-2 py-1" onClick={() => setView(view === label ? null : label)}>
+              {label} <span className="opacity-70">{count}</span>
+            </button>
+            <button className="px-1.5 py-1 opacity-60 hover:opacity-100 hover:text-destructive" onClick={() => deleteClass(label, count)} title={`Delete all "${label}" samples`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {view && (
+        <div className="max-h-[320px] overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {visible.slice(0, THUMBNAIL_LIMIT).map(({ sample, index }) => {
+              const outlier = outlierByIndex.get(index);
+              return (
+                <div key={index} className={`relative group/sample rounded border p-1 ${outlier ? 'border-amber-500' : ''}`}>
+                  <SampleThumbnail sample={sample} />
+                  <div className="flex items-center justify-between mt-1 text-[9px]">
+                    <span className="font-bold truncate" title={sample.label}>
+                      {sample.label}{sample.augmented && <span className="font-normal text-muted-foreground" title="Augmented"> aug</span>}
+                    </span>
+                    <span className="flex gap-1">
+                      <button onClick={() => relabelSample(index)} title="Relabel" className="hover:text-primary"><Pencil className="w-3 h-3" /></button>
+                      <button onClick={() => deleteSample(index)} title="Delete" className="hover:text-destructive"><Trash2 className="w-3 h-3" /></button>
+                    </span>
+                  </div>
+                  {outlier && (
+                    <p className="text-[9px] text-amber-600 leading-tight" title={`Nearest: ${outlier.neighbourLabels.join(", ")}`}>
+                      Looks like {outlier.neighbourLabels[0]}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {visible.length > THUMBNAIL_LIMIT && (
+            <p className="text-[10px] text-center text-muted-foreground mt-2">Showing {THUMBNAIL_LIMIT} of {visible.length} samples</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Model Evaluation (Training Studio) ---
+// Cross-validates the custom model (with the selected backend), so there's evidence before trusting ML mode.
+// Clicking a confusion matrix cell shows the samples that landed in it.
+
+const CELL_SAMPLE_LIMIT = 24;
+
+function EvaluationPanel({ samples: allSamples, classifier, strictness }: { samples: TrainingSample[], classifier: ClassifierConfig, strictness: number }) {
+  // Synthetic samples would make held-out folds look easier than real signing
+  const samples = useMemo(() => allSamples.filter(s => !s.augmented), [allSamples]);
+  const [strategy, setStrategy] = useState<ValidationStrategy>("kfold");
+  const [report, setReport] = useState<{ samples: TrainingSample[], result: ValidationReport } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [cell, setCell] = useState<{ expected: string, predicted: string } | null>(null);
+
+  const classCount = useMemo(() => new Set(samples.map(s => s.label)).size, [samples]);
+
+  const run = () => {
+    setRunning(true);
+    setCell(null);
+    // Evaluation is synchronous; give the button a frame to show it's working
+    setTimeout(() => {
+      setReport({ samples, result: crossValidate(samples, { strategy, classifier, strictness }) });
+      setRunning(false);
+    }, 0);
+  };
+
+  const result = report?.result;
+  const cellSamples = report && cell
+    ? report.samples.filter((_, i) => {
+        const p = report.result.predictions[i];
+        return p.expected === cell.expected && (p.predicted ?? NO_PREDICTION) === cell.predicted;
+      })
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
+          <ChartColumn className="w-3 h-3" /> Evaluate Model
+        </label>
+        <div className="grid grid-cols-2 gap-1 bg-muted p-1 rounded-lg">
+          {([["kfold", "K-Fold"], ["session", "By Session"]] as [ValidationStrategy, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setStrategy(value)}
+              className={`text-[10px] font-bold px-2 py-1 rounded-md transition-all ${strategy === value ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full" onClick={run} disabled={running || classCount < 2}>
+        {running ? "Evaluating..." : classCount < 2 ? "Train at least two classes to evaluate" : "Evaluate"}
+      </Button>
+
+      {result && (
+        <div className="space-y-3 text-xs">
+          {report.samples !== samples && (
+            <p className="text-[10px] text-amber-600">The dataset changed since this report. Evaluate again for current numbers.</p>
+          )}
+
+          <div className="flex items-baseline gap-2">
+            <span className={`text-2xl font-bold ${result.accuracy >= 0.85 ? 'text-green-600' : result.accuracy >= 0.6 ? 'text-yellow-600' : 'text-destructive'}`}>
+              {Math.round(result.accuracy * 100)}%
+            </span>
+            <span className="text-[10px] text-muted-foreground">
+              accuracy over {result.predictions.length} samples, {result.folds} {result.strategy === "session" ? "sessions" : "folds"}
+            </span>
+          </div>
+
+          {/* PER-CLASS PRECISION / RECALL */}
+          <div className="max-h-[200px] overflow-y-auto custom-scrollbar border rounded">
+            <table className="w-full text-[10px]">
+              <thead className="bg-muted/50 sticky top-0">
+                <tr><th className="text-left p-1">Class</th><th className="text-right p-1">Precision</th><th className="text-right p-1">Recall</th><th className="text-right p-1">Samples</th></tr>
+              </thead>
+              <tbody>
+                {result.metrics.map(m => (
+                  <tr key={m.label} className="border-t">
+                    <td className="p-1 font-bold">{m.label}</td>
+                    <td className="p-1 text-right">{Math.round(m.precision * 100)}%</td>
+                    <td className={`p-1 text-right ${m.recall < 0.85 ? 'text-destructive font-bold' : ''}`}>{Math.round(m.recall * 100)}%</td>
+                    <td className="p-1 text-right text-muted-foreground">{m.support}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* CONFUSION MATRIX (rows: true label, columns: prediction) */}
+          <div className="overflow-auto custom-scrollbar max-h-[260px] border rounded">
+            <table className="text-[9px] border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-1 sticky left-0 bg-background text-muted-foreground">true \ pred</th>
+                  {result.matrix.labels.map(l => <th key={l} className="p-1 font-bold">{l}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {result.metrics.map(({ label: row, support }) => (
+                  <tr key={row}>
+                    <th className="p-1 sticky left-0 bg-background font-bold text-left">{row}</th>
+                    {result.matrix.labels.map(col => {
+                      const count = result.matrix.counts[row][col] || 0;
+                      const share = support > 0 ? count / support : 0;
+                      const selected = cell?.expected === row && cell?.predicted === col;
+                      return (
+                        <td
+                          key={col}
+                          onClick={() => count > 0 && setCell(selected ? null : { expected: row, predicted: col })}
+                          className={`p-1 text-center min-w-[22px] ${count > 0 ? 'cursor-pointer hover:ring-1 hover:ring-primary' : 'text-muted-foreground/40'} ${selected ? 'ring-2 ring-primary' : ''}`}
+                          style={count > 0 ? { backgroundColor: row === col ? `rgba(22, 163, 74, ${0.15 + share * 0.6})` : `rgba(220, 38, 38, ${0.15 + share * 0.6})` } : undefined}
+                          title={`${count} "${row}" sample${count === 1 ? "" : "s"} predicted as "${col}"`}
+                        >
+                          {count || "."}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {cell && (
+            <div className="space-y-1">
+              <p className="text-[10px] text-muted-foreground">
+                {cellSamples.length} &quot;{cell.expected}&quot; samples predicted as &quot;{cell.predicted}&quot;
+              </p>
+              <div className="grid grid-cols-6 gap-1">
+                {cellSamples.slice(0, CELL_SAMPLE_LIMIT).map((sample, i) => <SampleThumbnail key={i} sample={sample} />)}
+              </div>
+            </div>
+          )}
+
+          {result.suggestions.length > 0 && (
+            <ul className="space-y-1 bg-muted/30 p-2 rounded">
+              {result.suggestions.map(s => (
+                <li key={s} className="text-[10px] flex gap-1"><Info className="w-3 h-3 shrink-0 mt-0.5" /> {s}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- Classifier Settings ---
+// Picks the custom model's backend and compares all of them on the current dataset with the
+// same cross-validation the Evaluate panel uses.
+
+const KNN_METRICS: [DistanceMetric, string][] = [["euclidean", "Euclidean"], ["manhattan", "Manhattan"], ["cosine", "Cosine"]];
+
+function ClassifierSettings({ config, onChange, strictness, onStrictnessChange, samples: allSamples }: {
+  config: ClassifierConfig,
+  onChange: (config: ClassifierConfig) => void,
+  strictness: number,
+  onStrictnessChange: (strictness: number) => void,
+  samples: TrainingSample[]
+}) {
+  // Benchmarked on recorded samples only, like the Evaluate panel
+  const samples = useMemo(() => allSamples.filter(s => !s.augmented), [allSamples]);
+  const [benchmark, setBenchmark] = useState<{ samples: TrainingSample[], results: BenchmarkResult[] } | null>(null);
+  const [running, setRunning] = useState(false);
+  const classCount = useMemo(() => new Set(samples.map(s => s.label)).size, [samples]);
+
+  const update = (changes: Partial<ClassifierConfig>) => onChange({ ...config, ...changes });
+
+  const runBenchmark = () => {
+    setRunning(true);
+    // Training every backend takes a few seconds on large datasets; let the button repaint first
+    setTimeout(() => {
+      const candidates: ClassifierConfig[] = [
+        { ...config, kind: "knn", index: "brute" },
+        { ...config, kind: "knn", index: "kdtree" },
+        { ...config, kind: "centroid" },
+        { ...config, kind: "logistic" },
+        { ...config, kind: "mlp" }
+      ];
+      setBenchmark({ samples, results: benchmarkClassifiers(samples, candidates) });
+      setRunning(false);
+    }, 0);
+  };
+
+  const describe = (c: ClassifierConfig) =>
+    c.kind === "knn" ? `KNN k=${c.k} ${c.metric}${c.index === "kdtree" ? " (KD-tree)" : ""}` : CLASSIFIER_LABELS[c.kind];
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-bold uppercase text-muted-foreground flex items-center gap-2">
+        <Cpu className="w-3 h-3" /> Classifier
+      </label>
+      <select
+        className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+        value={config.kind}
+        onChange={(e) => update({ kind: e.target.value as ClassifierKind })}
+      >
+        {(Object.keys(CLASSIFIER_LABELS) as ClassifierKind[]).map(kind => (
+          <option key={kind} value={kind}>{CLASSIFIER_LABELS[kind]}</option>
+        ))}
+      </select>
+
+      {config.kind === "knn" && (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>Neighbours (K)</span><span>{config.k}</span>
+            </div>
+            <Slider min="1" max="15" step="1" value={config.k} onChange={(e) => update({ k: Number(e.target.value) })} />
+          </div>
+          <div className="grid grid-cols-3 gap-1 bg-muted p-1 rounded-lg">
+            {KNN_METRICS.map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => update({ metric: value })}
+                className={`text-[10px] font-bold py-1 rounded-md transition-all ${config.metric === value ? 'bg-background shadow text-primary' : 'text-muted-foreground hover:bg-background/50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[10px] text-muted-foreground">
+            <input
+              type="checkbox"
+              className="accent-primary"
+              checked={config.index === "kdtree"}
+              disabled={config.metric === "cosine"}
+              onChange={(e) => update({ index: e.target.checked ? "kdtree" : "brute" })}
+            />
+            KD-tree index (faster on large datasets; not used with cosine)
+          </label>
+        </div>
+      )}
+
+      {config.kind === "mlp" && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>Hidden units</span><span>{config.hiddenUnits}</span>
+          </div>
+          <Slider min="8" max="128" step="8" value={config.hiddenUnits} onChange={(e) => update({ hiddenUnits: Number(e.target.value) })} />
+        </div>
+      )}
+
+      {(config.kind === "logistic" || config.kind === "mlp") && (
+        <p className="text-[10px] text-muted-foreground">Trained in the browser whenever the dataset changes.</p>
+      )}
+
+      {/* OPEN-SET REJECTION: how close a frame must be to a trained sign to be named at all */}
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] text-muted-foreground">
+          <span>Unknown-sign strictness</span>
+          <span>{strictness === 0 ? "Off" : `${Math.round(strictness * 100)}%`}</span>
+        </div>
+        <Slider min="0" max="1" step="0.05" value={strictness} onChange={(e) => onStrictnessChange(Number(e.target.value))} />
+        <p className="text-[10px] text-muted-foreground">Higher values reject more hand shapes that look like no trained sign.</p>
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={runBenchmark} disabled={running || classCount < 2}>
+        {running ? "Benchmarking..." : "Benchmark All"}
+      </Button>
+
+      {benchmark && (
+        <div className="space-y-1">
+          {benchmark.samples !== samples && (
+            <p className="text-[10px] text-amber-600">The dataset changed since this benchmark.</p>
+          )}
+          <table className="w-full text-[10px] border rounded">
+            <thead className="bg-muted/50">
+              <tr><th className="text-left p-1">Backend</th><th className="text-right p-1">Acc.</th><th className="text-right p-1">Train</th><th className="text-right p-1">Predict</th></tr>
+            </thead>
+            <tbody>
+              {benchmark.results.map(r => (
+                <tr key={describe(r.classifier)} className="border-t">
+                  <td className="p-1">
+                    <button className="hover:underline text-left" onClick={() => onChange(r.classifier)}>{describe(r.classifier)}</button>
+                  </td>
+                  <td className="p-1 text-right font-bold">{Math.round(r.accuracy * 100)}%</td>
+                  <td className="p-1 text-right text-muted-foreground">{Math.round(r.trainMs)}ms</td>
+                  <td className="p-1 text-right text-muted-foreground">{r.predictMs.toFixed(2)}ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-muted-foreground">K-fold accuracy. Click a backend to use it.</p>
+        </div>
+      )}
+    </div>
+  );
+}
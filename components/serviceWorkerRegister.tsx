@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect } from "react";
+import { MEDIAPIPE_ASSET_BASE } from "@/lib/landmarker/config";
+
+// Everything this page has fetched so far; the worker keeps the build chunks among them
+const loadedResources = () => performance.getEntriesByType("resource").map(entry => entry.name);
+
+// Registers public/sw.js so the model, WASM runtime and sign images are available offline.
+// Skipped in development to avoid serving stale bundles while editing.
+export default function ServiceWorkerRegister() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const url = `/sw.js?assetBase=${encodeURIComponent(MEDIAPIPE_ASSET_BASE)}`;
+    navigator.serviceWorker.register(url).catch((error) => {
+      console.warn("Gamay: Service worker registration failed", error);
+    });
+    // On the first visit the page's own bundles loaded before the worker existed, so hand
+    // them over once it's active or the app wouldn't start offline until a second visit
+    navigator.serviceWorker.ready.then((registration) => {
+      registration.active?.postMessage({ type: "cache-build-assets", urls: loadedResources() });
+    });
+  }, []);
+
+  return null;
+}
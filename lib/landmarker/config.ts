@@ -0,0 +1,51 @@
+import type { FaceLandmarkerOptions, HandLandmarkerOptions, PoseLandmarkerOptions } from "@mediapipe/tasks-vision";
+
+// --- MediaPipe Asset Locations ---
+// Served from our own origin by default (copied into public/mediapipe by `npm run assets`),
+// so the app keeps working offline and on networks that block the Google / jsDelivr CDNs.
+// Point NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE at another host to serve them from elsewhere;
+// it must contain `wasm/` and `models/hand_landmarker.task` (plus `face_landmarker.task` and
+// `pose_landmarker_lite.task` for body tracking).
+export const MEDIAPIPE_ASSET_BASE = (process.env.NEXT_PUBLIC_MEDIAPIPE_ASSET_BASE || "/mediapipe").replace(/\/$/, "");
+
+export const WASM_BASE_URL = `${MEDIAPIPE_ASSET_BASE}/wasm`;
+export const HAND_MODEL_URL = `${MEDIAPIPE_ASSET_BASE}/models/hand_landmarker.task`;
+export const FACE_MODEL_URL = `${MEDIAPIPE_ASSET_BASE}/models/face_landmarker.task`;
+export const POSE_MODEL_URL = `${MEDIAPIPE_ASSET_BASE}/models/pose_landmarker_lite.task`;
+
+export const buildHandLandmarkerOptions = (delegate: "GPU" | "CPU", canvas?: OffscreenCanvas): HandLandmarkerOptions => ({
+  baseOptions: {
+    modelAssetPath: HAND_MODEL_URL,
+    delegate
+  },
+  // Workers have no DOM canvas; MediaPipe needs an OffscreenCanvas for its GPU context there
+  ...(canvas ? { canvas } : {}),
+  runningMode: "VIDEO",
+  numHands: 2,
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5
+});
+
+// Body tracking only needs a few anchors from one person, so the lightest settings will do
+export const buildFaceLandmarkerOptions = (delegate: "GPU" | "CPU", canvas?: OffscreenCanvas): FaceLandmarkerOptions => ({
+  baseOptions: {
+    modelAssetPath: FACE_MODEL_URL,
+    delegate
+  },
+  ...(canvas ? { canvas } : {}),
+  runningMode: "VIDEO",
+  numFaces: 1,
+  outputFaceBlendshapes: false
+});
+
+export const buildPoseLandmarkerOptions = (delegate: "GPU" | "CPU", canvas?: OffscreenCanvas): PoseLandmarkerOptions => ({
+  baseOptions: {
+    modelAssetPath: POSE_MODEL_URL,
+    delegate
+  },
+  ...(canvas ? { canvas } : {}),
+  runningMode: "VIDEO",
+  numPoses: 1,
+  outputSegmentationMasks: false
+});
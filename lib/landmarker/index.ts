@@ -0,0 +1,14 @@
+export * from "./config";
+export * from "./pipeline";
+export * from "./protocol";
+
+// Detection runs in a worker when the browser can hand video frames to one and give
+// MediaPipe an OffscreenCanvas for its GPU context; otherwise callers stay on the main thread.
+export const supportsWorkerDetection = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+// Classic (non-module) worker on purpose: MediaPipe's WASM loader uses importScripts
+export const createLandmarkerWorker = () =>
+  new Worker(new URL("./landmarker.worker.ts", import.meta.url));
@@ -0,0 +1,52 @@
+import type { HandLandmarker } from "@mediapipe/tasks-vision";
+import { createBodyTracker, createFrameProcessor, createHandLandmarker, detectHands } from "./pipeline";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+// --- Landmarker Worker ---
+// Loaded as a classic worker: MediaPipe's WASM loader relies on importScripts.
+
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const processor = createFrameProcessor();
+const body = createBodyTracker(() => new OffscreenCanvas(1, 1));
+let landmarker: HandLandmarker | null = null;
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init": {
+      try {
+        const result = await createHandLandmarker(new OffscreenCanvas(1, 1));
+        landmarker = result.landmarker;
+        scope.postMessage({ type: "ready", delegate: result.delegate });
+      } catch (error) {
+        scope.postMessage({ type: "initError", message: String(error) });
+      }
+      break;
+    }
+    case "frame": {
+      const { frame, timestamp } = message;
+      try {
+        if (!landmarker) throw new Error("Landmarker not initialised");
+        scope.postMessage({ type: "result", frame: detectHands(landmarker, processor, frame, timestamp, body) });
+      } catch (error) {
+        scope.postMessage({ type: "frameError", message: String(error), timestamp });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+    case "configure": {
+      processor.configure(message.config);
+      processor.prepare();
+      const { bodyTracking } = message.config;
+      if (bodyTracking) {
+        body.setTracking(bodyTracking).catch(error => scope.postMessage({ type: "bodyError", message: String(error) }));
+      }
+      break;
+    }
+  }
+};
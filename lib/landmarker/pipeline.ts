@@ -0,0 +1,212 @@
+import { FaceLandmarker, FilesetResolver, HandLandmarker, PoseLandmarker } from "@mediapipe/tasks-vision";
+import {
+  type BodyAnchors, type BodyTracking, type Classifier, type ClassifierConfig, type HandLabel, type Handedness, type Landmark,
+  type LandmarkSmoother, type LocationIndex, type RecognitionResult, type RejectionCalibration, type SmoothingSettings,
+  type TrackedHand, type TrainingSample,
+  anchorsFromFace, anchorsFromPose, calibrateRejection, createClassifierRecognizer, createLandmarkSmoother, DEFAULT_CLASSIFIER_CONFIG,
+  DEFAULT_SMOOTHING_SETTINGS, DEFAULT_STRICTNESS, indexLocations, MIN_TRAINING_SAMPLES, trainClassifier, withLocationZones, withRejection
+} from "@/lib/recognition";
+import { WASM_BASE_URL, buildFaceLandmarkerOptions, buildHandLandmarkerOptions, buildPoseLandmarkerOptions } from "./config";
+
+// --- Hand Pipeline (Detection -> Hand Selection -> Smoothing -> Custom Model) ---
+// The same code runs inside the landmarker worker and, as a fallback, on the main thread.
+// Body tracking (face or pose) optionally runs on the same frame to place the hands.
+
+export interface DetectedHand { landmarks: Landmark[]; handedness: Handedness | null; }
+
+export interface HandFrame {
+  timestamp: number;
+  primary: TrackedHand | null; // Dominant hand (or the only hand in view)
+  secondary: TrackedHand | null; // The other hand, when two are in view
+  ml: RecognitionResult | null; // Only computed when training data is loaded
+  body: BodyAnchors | null; // Only when body tracking is on and found someone
+  durationMs: number; // Detection + post-processing time
+}
+
+export interface PipelineConfig {
+  smoothing: SmoothingSettings;
+  trainingData: TrainingSample[];
+  classifier: ClassifierConfig;
+  strictness: number; // Open-set rejection, 0 = always name the nearest trained sign
+  dominantHand: HandLabel;
+  bodyTracking: BodyTracking; // Extra landmarker run next to hand detection
+}
+
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  smoothing: DEFAULT_SMOOTHING_SETTINGS,
+  trainingData: [],
+  classifier: DEFAULT_CLASSIFIER_CONFIG,
+  strictness: DEFAULT_STRICTNESS,
+  dominantHand: "Right",
+  bodyTracking: "off"
+};
+
+export type Delegate = "GPU" | "CPU";
+
+export const createHandLandmarker = async (canvas?: OffscreenCanvas): Promise<{ landmarker: HandLandmarker, delegate: Delegate }> => {
+  const vision = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+  try {
+    const landmarker = await HandLandmarker.createFromOptions(vision, buildHandLandmarkerOptions("GPU", canvas));
+    return { landmarker, delegate: "GPU" };
+  } catch (gpuError) {
+    console.warn("Gamay: GPU init failed, falling back to CPU", gpuError);
+    const landmarker = await HandLandmarker.createFromOptions(vision, buildHandLandmarkerOptions("CPU", canvas));
+    return { landmarker, delegate: "CPU" };
+  }
+};
+
+// --- Body Tracking ---
+
+export interface BodyLandmarker {
+  detect: (source: TexImageSource, timestamp: number) => BodyAnchors | null;
+  close: () => void;
+}
+
+export const createBodyLandmarker = async (tracking: Exclude<BodyTracking, "off">, canvas?: OffscreenCanvas): Promise<BodyLandmarker> => {
+  const vision = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+  if (tracking === "face") {
+    const create = (delegate: Delegate) => FaceLandmarker.createFromOptions(vision, buildFaceLandmarkerOptions(delegate, canvas));
+    const landmarker = await create("GPU").catch((gpuError) => {
+      console.warn("Gamay: GPU init failed for face tracking, falling back to CPU", gpuError);
+      return create("CPU");
+    });
+    return {
+      detect: (source, timestamp) => {
+        const face = landmarker.detectForVideo(source, timestamp).faceLandmarks?.[0];
+        return face ? anchorsFromFace(face as Landmark[]) : null;
+      },
+      close: () => landmarker.close()
+    };
+  }
+  const create = (delegate: Delegate) => PoseLandmarker.createFromOptions(vision, buildPoseLandmarkerOptions(delegate, canvas));
+  const landmarker = await create("GPU").catch((gpuError) => {
+    console.warn("Gamay: GPU init failed for pose tracking, falling back to CPU", gpuError);
+    return create("CPU");
+  });
+  return {
+    detect: (source, timestamp) => {
+      const pose = landmarker.detectForVideo(source, timestamp).landmarks?.[0];
+      return pose ? anchorsFromPose(pose as Landmark[]) : null;
+    },
+    close: () => landmarker.close()
+  };
+};
+
+// Keeps at most one body landmarker, matching the latest requested mode. setTracking rejects
+// when the model fails to load, and tracking is then back off.
+export const createBodyTracker = (createCanvas?: () => OffscreenCanvas) => {
+  let tracking: BodyTracking = "off";
+  let landmarker: BodyLandmarker | null = null;
+
+  const setTracking = async (next: BodyTracking) => {
+    if (next === tracking) return;
+    tracking = next;
+    landmarker?.close();
+    landmarker = null;
+    if (next === "off") return;
+    try {
+      const loaded = await createBodyLandmarker(next, createCanvas?.());
+      // Switched again while loading
+      if (tracking !== next) loaded.close();
+      else landmarker = loaded;
+    } catch (error) {
+      if (tracking === next) tracking = "off";
+      throw error;
+    }
+  };
+
+  const detect = (source: TexImageSource, timestamp: number) => landmarker?.detect(source, timestamp) ?? null;
+
+  return { setTracking, detect };
+};
+
+export type BodyTracker = ReturnType<typeof createBodyTracker>;
+
+// Post-detection stages only; usable without a landmarker (e.g. for replayed sessions)
+export const createFrameProcessor = () => {
+  let config = DEFAULT_PIPELINE_CONFIG;
+  // One smoother per physical hand so the two skeletons never blend into each other
+  let smoothers: Record<string, LandmarkSmoother> = {};
+  // Trained by prepare() once the dataset or backend changes, or else on the next frame
+  let classifier: Classifier | null = null;
+  let calibration: RejectionCalibration | null = null;
+  let locations: LocationIndex | null = null;
+
+  const configure = (update: Partial<PipelineConfig>) => {
+    if (update.smoothing && update.smoothing !== config.smoothing) smoothers = {};
+    if (update.trainingData && update.trainingData !== config.trainingData) {
+      calibration = null;
+      locations = null;
+    }
+    if ((update.trainingData && update.trainingData !== config.trainingData) || (update.classifier && update.classifier !== config.classifier)) {
+      classifier = null;
+    }
+    config = { ...config, ...update };
+  };
+
+  // Training a large dataset takes a while, so callers that own a detection loop call this
+  // when new data arrives rather than stalling the next frame with it
+  const prepare = () => {
+    if (config.trainingData.length < MIN_TRAINING_SAMPLES) return null;
+    classifier ??= trainClassifier(config.trainingData, config.classifier);
+    calibration ??= calibrateRejection(config.trainingData);
+    locations ??= indexLocations(config.trainingData);
+    return withLocationZones(createClassifierRecognizer(withRejection(classifier, calibration, config.strictness)), locations);
+  };
+
+  // Prefer the dominant hand; with a single hand in view, that hand is always primary
+  const pickHands = (hands: DetectedHand[]): [DetectedHand | null, DetectedHand | null] => {
+    if (hands.length === 0) return [null, null];
+    if (hands.length === 1) return [hands[0], null];
+    const dominant = hands.findIndex(h => h.handedness?.label === config.dominantHand);
+    const i = dominant >= 0 ? dominant : 0;
+    return [hands[i], hands[1 - i]];
+  };
+
+  const track = (hand: DetectedHand | null, key: string, timestamp: number): TrackedHand | null => {
+    if (!hand || hand.landmarks.length === 0) return null;
+    if (!smoothers[key]) smoothers[key] = createLandmarkSmoother(config.smoothing);
+    return { landmarks: smoothers[key].smooth(hand.landmarks, timestamp), handedness: hand.handedness, raw: hand.landmarks };
+  };
+
+  const process = (hands: DetectedHand[], timestamp: number, startedAt = timestamp, body: BodyAnchors | null = null): HandFrame => {
+    const [first, second] = pickHands(hands);
+    const keyOf = (hand: DetectedHand | null, fallback: string) => hand?.handedness?.label ?? fallback;
+    const firstKey = keyOf(first, "primary");
+    // MediaPipe occasionally labels both hands the same; keep their filters apart anyway
+    const secondKey = keyOf(second, "secondary") === firstKey ? `${firstKey}-2` : keyOf(second, "secondary");
+    // Losing a hand resets its filters so the next hand doesn't slide in from the old position
+    Object.keys(smoothers).forEach(key => {
+      if ((!first || key !== firstKey) && (!second || key !== secondKey)) delete smoothers[key];
+    });
+
+    const primary = track(first, firstKey, timestamp);
+    const secondary = track(second, secondKey, timestamp);
+    const recognizer = primary ? prepare() : null;
+    const ml = primary && recognizer
+      ? recognizer.recognize(primary.landmarks, { handedness: primary.handedness, otherHand: secondary?.landmarks, body })
+      : null;
+    return { timestamp, primary, secondary, ml, body, durationMs: performance.now() - startedAt };
+  };
+
+  return { process, configure, prepare };
+};
+
+export type FrameProcessor = ReturnType<typeof createFrameProcessor>;
+
+export const detectHands = (landmarker: HandLandmarker, processor: FrameProcessor, source: TexImageSource, timestamp: number, body?: BodyTracker | null): HandFrame => {
+  const startedAt = performance.now();
+  const results = landmarker.detectForVideo(source, timestamp);
+  const anchors = body?.detect(source, timestamp) ?? null;
+  const hands: DetectedHand[] = (results.landmarks ?? []).map((landmarks, i) => {
+    const category = results.handedness?.[i]?.[0];
+    // MediaPipe assumes a mirrored (selfie) image; our frames are unmirrored, so swap the
+    // label to get the signer's actual hand (the convention is set out under "Canonical Hand
+    // Frame" in lib/recognition/geometry.ts).
+    const handedness: Handedness | null = category
+      ? { label: category.categoryName === "Left" ? "Right" : "Left", score: category.score }
+      : null;
+    return { landmarks: landmarks as Landmark[], handedness };
+  });
+  return processor.process(hands, timestamp, startedAt, anchors);
+};
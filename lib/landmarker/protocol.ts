@@ -0,0 +1,17 @@
+import type { Delegate, HandFrame, PipelineConfig } from "./pipeline";
+
+// --- Landmarker Worker Message Protocol ---
+
+export type WorkerRequest =
+  | { type: "init" }
+  // The frame is transferred, not copied; the worker closes it after detection
+  | { type: "frame", frame: ImageBitmap | VideoFrame, timestamp: number }
+  | { type: "configure", config: Partial<PipelineConfig> };
+
+export type WorkerResponse =
+  | { type: "ready", delegate: Delegate }
+  | { type: "initError", message: string }
+  | { type: "result", frame: HandFrame }
+  | { type: "frameError", message: string, timestamp: number }
+  // Body tracking failed to load and is off again
+  | { type: "bodyError", message: string };
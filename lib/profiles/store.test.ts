@@ -0,0 +1,82 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  type TrainingSample, createBaselineDataset, DEFAULT_FEATURE_SCHEMA, LEGACY_FEATURE_SCHEMA, toWristRelativeVector
+} from "@/lib/recognition";
+import { type ModelProfile, openProfileStore } from "./store";
+
+const samples = createBaselineDataset({ samplesPerClass: 1 }).slice(0, 3);
+
+// A profile saved before feature extraction existed: plain wrist-relative vectors
+const legacyProfile: ModelProfile = {
+  id: "legacy",
+  name: "Old profile",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+  featureSchema: LEGACY_FEATURE_SCHEMA,
+  samples: samples.map(({ label, landmarks = [] }): TrainingSample => ({ label, vector: toWristRelativeVector(landmarks) }))
+};
+
+// Reads the stored record directly, bypassing the store's own migration
+const readRaw = (id: string) => new Promise<ModelProfile>((resolve, reject) => {
+  const open = indexedDB.open("gamay");
+  open.onerror = () => reject(open.error);
+  open.onsuccess = () => {
+    const req = open.result.transaction("profiles").objectStore("profiles").get(id);
+    req.onsuccess = () => {
+      open.result.close();
+      resolve(req.result);
+    };
+    req.onerror = () => reject(req.error);
+  };
+});
+
+const writeRaw = (profile: ModelProfile) => new Promise<void>((resolve, reject) => {
+  const open = indexedDB.open("gamay");
+  open.onerror = () => reject(open.error);
+  open.onsuccess = () => {
+    const req = open.result.transaction("profiles", "readwrite").objectStore("profiles").put(profile);
+    req.onsuccess = () => {
+      open.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  };
+});
+
+describe("openProfileStore", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it("saves and lists profiles", async () => {
+    const store = await openProfileStore();
+    const created = await store.create("Alex", samples);
+    await store.setActiveId(created.id);
+    expect(await store.list()).toEqual([{ id: created.id, name: "Alex", sampleCount: samples.length, updatedAt: created.updatedAt }]);
+    expect(await store.getActiveId()).toBe(created.id);
+    expect((await store.get(created.id))?.samples).toEqual(samples);
+    store.close();
+  });
+
+  it("writes a migrated profile back", async () => {
+    const store = await openProfileStore();
+    await writeRaw(legacyProfile);
+
+    const loaded = await store.get("legacy");
+    expect(loaded?.featureSchema).toEqual(DEFAULT_FEATURE_SCHEMA);
+    expect(loaded?.samples.map(s => s.vector.length)).toEqual(samples.map(s => s.vector.length));
+
+    const stored = await readRaw("legacy");
+    expect(stored.featureSchema).toEqual(DEFAULT_FEATURE_SCHEMA);
+    expect(stored.samples).toEqual(loaded?.samples);
+    expect(stored.updatedAt).toBe(legacyProfile.updatedAt);
+    store.close();
+  });
+
+  it("fails to update a profile that doesn't exist", async () => {
+    const store = await openProfileStore();
+    await expect(store.rename("missing", "Sam")).rejects.toThrow("Profile missing not found");
+    store.close();
+  });
+});
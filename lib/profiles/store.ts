@@ -0,0 +1,121 @@
+import {
+  type FeatureSchema, type HandCalibration, type TrainingSample,
+  DEFAULT_FEATURE_SCHEMA, migrateSamples, sameFeatureSchema
+} from "@/lib/recognition";
+
+// --- Model Profiles (IndexedDB) ---
+// Each profile is a named training dataset (per signer, per classroom, ...), plus the
+// signer's hand calibration when they've run one. Profiles are stored whole; the active
+// profile id lives in a small key/value store next to them.
+
+export interface ModelProfile {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+  featureSchema: FeatureSchema; // Schema the samples were extracted with
+  samples: TrainingSample[];
+  calibration?: HandCalibration | null; // Personal geometric thresholds (missing in older profiles)
+}
+
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  sampleCount: number;
+  updatedAt: string;
+}
+
+const DB_NAME = "gamay";
+const DB_VERSION = 1;
+const PROFILES = "profiles";
+const META = "meta";
+const ACTIVE_PROFILE_KEY = "activeProfileId";
+
+// Wraps a single IDBRequest in a promise
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(PROFILES)) db.createObjectStore(PROFILES, { keyPath: "id" });
+    if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const summarize = (profile: ModelProfile): ProfileSummary => ({
+  id: profile.id, name: profile.name, sampleCount: profile.samples.length, updatedAt: profile.updatedAt
+});
+
+export const supportsProfileStore = () => typeof indexedDB !== "undefined";
+
+export const openProfileStore = async () => {
+  const db = await openDatabase();
+  const store = (name: string, mode: IDBTransactionMode = "readonly") => db.transaction(name, mode).objectStore(name);
+
+  const list = async (): Promise<ProfileSummary[]> => {
+    const profiles = await request(store(PROFILES).getAll() as IDBRequest<ModelProfile[]>);
+    return profiles.map(summarize).sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const put = async (profile: ModelProfile) => {
+    await request(store(PROFILES, "readwrite").put(profile));
+    return profile;
+  };
+
+  // Samples saved under an older feature schema are re-derived on the way out and written
+  // back, so that only happens once. It isn't an edit, so updatedAt stays as it was.
+  const get = async (id: string): Promise<ModelProfile | null> => {
+    const profile = await request(store(PROFILES).get(id) as IDBRequest<ModelProfile | undefined>);
+    if (!profile) return null;
+    if (sameFeatureSchema(profile.featureSchema, DEFAULT_FEATURE_SCHEMA)) return profile;
+    return put({
+      ...profile,
+      featureSchema: DEFAULT_FEATURE_SCHEMA,
+      samples: migrateSamples(profile.samples, profile.featureSchema)
+    });
+  };
+
+  const create = (name: string, samples: TrainingSample[] = [], calibration: HandCalibration | null = null) => {
+    const now = new Date().toISOString();
+    return put({ id: newId(), name, createdAt: now, updatedAt: now, featureSchema: DEFAULT_FEATURE_SCHEMA, samples, calibration });
+  };
+
+  const update = async (id: string, changes: Partial<Pick<ModelProfile, "name" | "samples" | "calibration">>) => {
+    const profile = await get(id);
+    if (!profile) throw new Error(`Profile ${id} not found`);
+    return put({ ...profile, ...changes, updatedAt: new Date().toISOString() });
+  };
+
+  const saveSamples = (id: string, samples: TrainingSample[]) => update(id, { samples });
+
+  const saveCalibration = (id: string, calibration: HandCalibration | null) => update(id, { calibration });
+
+  const rename = (id: string, name: string) => update(id, { name });
+
+  const duplicate = async (id: string, name: string) => {
+    const profile = await get(id);
+    if (!profile) throw new Error(`Profile ${id} not found`);
+    return create(name, profile.samples, profile.calibration ?? null);
+  };
+
+  const remove = (id: string) => request(store(PROFILES, "readwrite").delete(id));
+
+  const getActiveId = () => request(store(META).get(ACTIVE_PROFILE_KEY) as IDBRequest<string | undefined>);
+
+  const setActiveId = (id: string) => request(store(META, "readwrite").put(id, ACTIVE_PROFILE_KEY));
+
+  return { list, get, create, saveSamples, saveCalibration, rename, duplicate, remove, getActiveId, setActiveId, close: () => db.close() };
+};
+
+export type ProfileStore = Awaited<ReturnType<typeof openProfileStore>>;
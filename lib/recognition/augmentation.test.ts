@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import type { Sample, TrainingSample } from "./types";
+import { augmentSamples } from "./augmentation";
+import { createBaselineDataset } from "./baseline";
+import { toFeatureVector } from "./features";
+import { mirrorLandmarks } from "./geometry";
+import { createClassifierRecognizer, trainClassifier } from "./classifier";
+
+// A few right-hand recordings per sign, as a signer would add them
+const recorded: Sample[] = createBaselineDataset({ samplesPerClass: 3 }).map(({ label, landmarks = [], handedness }) => ({ label, landmarks, handedness }));
+const toTraining = (samples: Sample[]): TrainingSample[] =>
+  samples.map(sample => ({ ...sample, vector: toFeatureVector(sample.landmarks, { handedness: sample.handedness }) }));
+
+describe("augmentSamples", () => {
+  it("adds flagged copies of every recorded sample", () => {
+    const generated = augmentSamples(recorded, { copies: 2 });
+    expect(generated).toHaveLength(recorded.length * 2);
+    expect(generated.every(s => s.augmented)).toBe(true);
+    expect(augmentSamples(generated, { copies: 2 })).toEqual([]);
+  });
+
+  it("trains a model that reads the other hand without mirrored copies", () => {
+    const recognizer = createClassifierRecognizer(trainClassifier(toTraining([...recorded, ...augmentSamples(recorded)]), { kind: "knn" }));
+    const unseen = createBaselineDataset({ samplesPerClass: 2, seed: 99 });
+    const read = (landmarks: Sample["landmarks"], label: "Left" | "Right") =>
+      recognizer.recognize(landmarks, { handedness: { label, score: 1 } })?.label;
+    unseen.forEach(({ label, landmarks = [] }) => {
+      expect(read(mirrorLandmarks(landmarks), "Left"), label).toBe(read(landmarks, "Right"));
+    });
+    const recall = unseen.filter(({ label, landmarks = [] }) => read(mirrorLandmarks(landmarks), "Left") === label).length / unseen.length;
+    expect(recall).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,81 @@
+import type { Landmark, Sample } from "./types";
+import { getPalmScale } from "./geometry";
+import { createRandom, gaussian } from "./random";
+
+// --- Data Augmentation ---
+// Synthesises extra samples from recorded ones so a class isn't tied to the exact poses that
+// were captured. The feature vector already normalises position, uniform scale and in-plane
+// rotation away, so the transforms here target what it doesn't:
+//   rotation -> small 3D tilts around the wrist (yaw / pitch / roll)
+//   scale    -> per-axis stretch, like a different camera angle or aspect ratio
+//   noise    -> Gaussian jitter on every landmark, in palm lengths
+// There is no mirrored copy for the other hand: left hands are mirrored into the right-hand
+// frame before features are taken (geometry.ts), so samples from one hand already cover both.
+// Every generated sample is flagged `augmented` so it can be kept out of evaluation.
+
+export interface AugmentationOptions {
+  copies: number; // Generated samples per recorded sample
+  rotationDeg: number; // Max tilt per axis, 0 = off
+  scaleJitter: number; // Max per-axis stretch, e.g. 0.1 = +-10%, 0 = off
+  noise: number; // Landmark noise std-dev in palm lengths, 0 = off
+  seed: number;
+}
+
+export const DEFAULT_AUGMENTATION_OPTIONS: AugmentationOptions = {
+  copies: 4,
+  rotationDeg: 12,
+  scaleJitter: 0.1,
+  noise: 0.02,
+  seed: 7
+};
+
+type Vec3 = [number, number, number];
+
+// Rotation matrix for small yaw (y), pitch (x) and roll (z) angles, in radians
+const rotationMatrix = (yaw: number, pitch: number, roll: number): Vec3[] => {
+  const [cy, sy, cp, sp, cr, sr] = [Math.cos(yaw), Math.sin(yaw), Math.cos(pitch), Math.sin(pitch), Math.cos(roll), Math.sin(roll)];
+  return [
+    [cy * cr + sy * sp * sr, -cy * sr + sy * sp * cr, sy * cp],
+    [cp * sr, cp * cr, -sp],
+    [-sy * cr + cy * sp * sr, sy * sr + cy * sp * cr, cy * cp]
+  ];
+};
+
+// One random transform, applied to both hands of a sample so their relation is preserved
+const createTransform = (hand: Landmark[], options: AugmentationOptions, random: () => number) => {
+  const uniform = (max: number) => (random() * 2 - 1) * max;
+  const angle = options.rotationDeg * Math.PI / 180;
+  const rotation = rotationMatrix(uniform(angle), uniform(angle), uniform(angle));
+  const stretch: Vec3 = [1 + uniform(options.scaleJitter), 1 + uniform(options.scaleJitter), 1 + uniform(options.scaleJitter)];
+  const noise = options.noise * getPalmScale(hand);
+  const pivot = hand[0];
+
+  return (landmarks: Landmark[]) => landmarks.map(p => {
+    const local: Vec3 = [(p.x - pivot.x) * stretch[0], (p.y - pivot.y) * stretch[1], (p.z - pivot.z) * stretch[2]];
+    const [x, y, z] = rotation.map(row => row[0] * local[0] + row[1] * local[1] + row[2] * local[2]);
+    return {
+      x: pivot.x + x + (noise > 0 ? gaussian(random) * noise : 0),
+      y: pivot.y + y + (noise > 0 ? gaussian(random) * noise : 0),
+      z: pivot.z + z + (noise > 0 ? gaussian(random) * noise : 0)
+    };
+  });
+};
+
+// Generated samples only; the originals are not included. Deterministic for a given seed.
+export const augmentSamples = (samples: Sample[], options: Partial<AugmentationOptions> = {}): Sample[] => {
+  const settings = { ...DEFAULT_AUGMENTATION_OPTIONS, ...options };
+  const random = createRandom(settings.seed);
+  return samples.filter(s => !s.augmented && s.landmarks.length > 0).flatMap(sample => {
+    const generated: Sample[] = [];
+    for (let i = 0; i < settings.copies; i++) {
+      const transform = createTransform(sample.landmarks, settings, random);
+      generated.push({
+        ...sample,
+        landmarks: transform(sample.landmarks),
+        ...(sample.otherHand ? { otherHand: transform(sample.otherHand) } : {}),
+        augmented: true
+      });
+    }
+    return generated;
+  });
+};
@@ -0,0 +1,204 @@
+import type { Landmark, TrainingSample } from "./types";
+import { toFeatureVector } from "./features";
+import { createRandom, gaussian } from "./random";
+
+// --- Baseline Alphabet (Bundled ML Dataset) ---
+// A starting dataset for ML mode so it isn't empty on first use. It is generated here, not
+// recorded: a simple kinematic hand model is posed from per-letter handshape specs, then
+// jittered into many samples. That's enough to get the handshapes roughly right, not to
+// match a real signer, so users fine-tune by adding their own samples on top (the nearest,
+// real samples win the vote).
+//
+// Coverage: 29 of the 36 signs in A-Z and 0-9, so BASELINE_LABELS never predicts the other
+// seven. J and Z are drawn movements and come from the built-in motion templates
+// (trajectory.ts). H, 0, 2, 6 and 9 are left out on purpose: the features only see the
+// hand's own shape, and ASL tells those apart from U, O, V, W and F by orientation (H) or
+// context (the numbers), so each pair would be one handshape under two labels and the
+// model would pick between them at random. The built-in rules read H from orientation, and
+// users record the numbers themselves. P/K and Q/G differ only slightly here (P's middle
+// finger points further forward, Q's index is bent); the rules also use orientation for
+// those.
+//
+// Bump BASELINE_VERSION whenever the specs or the generator change the generated samples.
+
+export const BASELINE_VERSION = 2;
+
+export interface BaselineOptions {
+  samplesPerClass: number;
+  seed: number;
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = { samplesPerClass: 30, seed: 2024 };
+
+// --- Hand Model ---
+// Palm-local space, in palm lengths (wrist -> middle knuckle = 1): +x towards the thumb
+// side, +y towards the fingertips, -z out of the palm (the way fingers curl). Posed as a
+// right hand with its palm to the camera; toImage() places it in an unmirrored frame.
+
+type Vec3 = [number, number, number];
+type FingerKey = "index" | "middle" | "ring" | "pinky";
+
+const FINGERS: FingerKey[] = ["index", "middle", "ring", "pinky"];
+
+const KNUCKLES: Record<FingerKey, Vec3> = {
+  index: [0.24, 0.96, 0], middle: [0, 1, 0], ring: [-0.2, 0.95, 0], pinky: [-0.38, 0.86, 0]
+};
+const SEGMENTS: Record<FingerKey, Vec3> = {
+  index: [0.45, 0.28, 0.22], middle: [0.5, 0.33, 0.25], ring: [0.47, 0.31, 0.24], pinky: [0.36, 0.23, 0.2]
+};
+// Resting splay (degrees, + towards the thumb) with fingers together and spread apart
+const SPLAY: Record<FingerKey, [number, number]> = {
+  index: [3, 12], middle: [0, 2], ring: [-3, -9], pinky: [-6, -20]
+};
+const THUMB_BASE: Vec3 = [0.22, 0.28, -0.05];
+
+// Flexion in degrees at the knuckle, middle and end joints
+type Flexion = [number, number, number];
+
+const STRAIGHT: Flexion = [0, 0, 0];
+const FIST: Flexion = [85, 100, 70];
+const ROUND: Flexion = [40, 60, 40]; // Tips curving to meet the thumb (O, D)
+const CURVED: Flexion = [25, 35, 25]; // C
+const HOOK: Flexion = [15, 95, 70]; // X
+const CLAW: Flexion = [30, 110, 80]; // E
+const OVER_THUMB: Flexion = [70, 95, 60]; // Curled over a tucked thumb (M, N, T)
+
+// Where the thumb tip goes: a fixed palm-local point, or a point on a finger
+type ThumbTarget = Vec3 | { touch: FingerKey, joint: "tip" | "pip" };
+
+const THUMB_ALONGSIDE: Vec3 = [0.45, 1.02, -0.1];
+const THUMB_OUT: Vec3 = [1.0, 0.6, -0.05];
+const THUMB_ACROSS_PALM: Vec3 = [-0.15, 0.6, -0.15];
+const THUMB_ACROSS_FINGERS: Vec3 = [-0.08, 1.0, -0.4];
+const THUMB_HOLDING_DOWN: Vec3 = [-0.25, 0.85, -0.4]; // Over the curled ring and pinky
+const THUMB_PARALLEL: Vec3 = [0.5, 1.15, -0.12];
+
+interface HandshapeSpec {
+  fingers: Record<FingerKey, Flexion>;
+  spread?: boolean;
+  splay?: Partial<Record<FingerKey, number>>; // Extra splay, e.g. to cross fingers (R)
+  thumb: ThumbTarget;
+}
+
+const shape = (index: Flexion, middle: Flexion, ring: Flexion, pinky: Flexion, thumb: ThumbTarget, extra: Partial<HandshapeSpec> = {}): HandshapeSpec =>
+  ({ fingers: { index, middle, ring, pinky }, thumb, ...extra });
+
+// Index and middle pressed together (U)
+const TOGETHER: Partial<HandshapeSpec> = { splay: { index: -6, middle: 3 } };
+
+const touch = (finger: FingerKey, joint: "tip" | "pip" = "tip") => ({ touch: finger, joint });
+
+const HANDSHAPES: Record<string, HandshapeSpec> = {
+  A: shape(FIST, FIST, FIST, FIST, THUMB_ALONGSIDE),
+  B: shape(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT, THUMB_ACROSS_PALM),
+  C: shape(CURVED, CURVED, CURVED, CURVED, [0.55, 0.75, -0.45]),
+  D: shape(STRAIGHT, ROUND, ROUND, ROUND, touch("middle")),
+  E: shape(CLAW, CLAW, CLAW, CLAW, [0.05, 0.62, -0.22]),
+  F: shape(ROUND, STRAIGHT, STRAIGHT, STRAIGHT, touch("index"), { spread: true }),
+  G: shape(STRAIGHT, FIST, FIST, FIST, THUMB_PARALLEL),
+  I: shape(FIST, FIST, FIST, STRAIGHT, THUMB_ACROSS_FINGERS),
+  K: shape(STRAIGHT, [45, 0, 0], FIST, FIST, touch("middle", "pip")),
+  L: shape(STRAIGHT, FIST, FIST, FIST, THUMB_OUT),
+  M: shape(OVER_THUMB, OVER_THUMB, OVER_THUMB, FIST, [-0.3, 0.78, -0.22]),
+  N: shape(OVER_THUMB, OVER_THUMB, FIST, FIST, [-0.1, 0.85, -0.24]),
+  O: shape(ROUND, ROUND, ROUND, ROUND, touch("index")),
+  P: shape(STRAIGHT, [70, 0, 0], FIST, FIST, touch("middle", "pip")),
+  Q: shape([35, 20, 10], FIST, FIST, FIST, [0.45, 0.95, -0.35]),
+  R: shape(STRAIGHT, STRAIGHT, FIST, FIST, THUMB_HOLDING_DOWN, { splay: { index: -14, middle: 10 } }),
+  S: shape(FIST, FIST, FIST, FIST, THUMB_ACROSS_FINGERS),
+  T: shape(OVER_THUMB, FIST, FIST, FIST, [0.12, 1.02, -0.3]),
+  U: shape(STRAIGHT, STRAIGHT, FIST, FIST, THUMB_HOLDING_DOWN, TOGETHER),
+  V: shape(STRAIGHT, STRAIGHT, FIST, FIST, THUMB_HOLDING_DOWN, { spread: true }),
+  W: shape(STRAIGHT, STRAIGHT, STRAIGHT, FIST, touch("pinky"), { spread: true }),
+  X: shape(HOOK, FIST, FIST, FIST, THUMB_ACROSS_FINGERS),
+  Y: shape(FIST, FIST, FIST, STRAIGHT, THUMB_OUT, { spread: true }),
+  "1": shape(STRAIGHT, FIST, FIST, FIST, THUMB_ACROSS_FINGERS),
+  "3": shape(STRAIGHT, STRAIGHT, FIST, FIST, THUMB_OUT, { spread: true }),
+  "4": shape(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT, THUMB_ACROSS_PALM, { spread: true }),
+  "5": shape(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT, THUMB_OUT, { spread: true }),
+  "7": shape(STRAIGHT, STRAIGHT, ROUND, STRAIGHT, touch("ring"), { spread: true }),
+  "8": shape(STRAIGHT, ROUND, STRAIGHT, STRAIGHT, touch("middle"), { spread: true })
+};
+
+export const BASELINE_LABELS = Object.keys(HANDSHAPES);
+
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => add(a, scale(add(b, scale(a, -1)), t));
+
+// Knuckle, middle, end joint and tip of a finger. Flexion rotates the finger within the
+// plane spanned by its splay direction and the palm normal, accumulating along the finger.
+const poseFinger = (finger: FingerKey, flexion: Flexion, splayDeg: number): Vec3[] => {
+  const splay = splayDeg * Math.PI / 180;
+  const along: Vec3 = [Math.sin(splay), Math.cos(splay), 0];
+  const points = [KNUCKLES[finger]];
+  let angle = 0;
+  SEGMENTS[finger].forEach((length, i) => {
+    angle += flexion[i] * Math.PI / 180;
+    const direction = add(scale(along, Math.cos(angle)), [0, 0, -Math.sin(angle)]);
+    points.push(add(points[i], scale(direction, length)));
+  });
+  return points;
+};
+
+// The thumb is placed by its tip: the joints are spread along a slight outward bow from
+// its base, which is close enough to a real thumb for palm-frame features.
+const poseThumb = (tip: Vec3): Vec3[] => {
+  const bow: Vec3 = [0.06, -0.02, 0.03];
+  return [
+    THUMB_BASE,
+    add(lerp(THUMB_BASE, tip, 0.3), bow),
+    add(lerp(THUMB_BASE, tip, 0.65), scale(bow, 0.6)),
+    tip
+  ];
+};
+
+const poseHand = (spec: HandshapeSpec, random: () => number): Vec3[] => {
+  const jitter = (degrees: number) => (random() * 2 - 1) * degrees;
+  const fingers = Object.fromEntries(FINGERS.map(finger => {
+    const flexion = spec.fingers[finger].map(f => Math.max(0, f + jitter(8))) as Flexion;
+    const splay = SPLAY[finger][spec.spread ? 1 : 0] + (spec.splay?.[finger] ?? 0) + jitter(3);
+    return [finger, poseFinger(finger, flexion, splay)];
+  })) as Record<FingerKey, Vec3[]>;
+
+  const target = Array.isArray(spec.thumb)
+    ? spec.thumb
+    : fingers[spec.thumb.touch][spec.thumb.joint === "tip" ? 3 : 1];
+  // Touching thumbs rest just in front of the finger rather than inside it
+  const offset: Vec3 = Array.isArray(spec.thumb) ? [0, 0, 0] : [0.04, -0.03, -0.03];
+  const thumbTip = add(add(target, offset), [jitter(0.04), jitter(0.04), jitter(0.04)]);
+
+  // MediaPipe order: wrist, thumb (1-4), then index, middle, ring, pinky (knuckle to tip)
+  return [[0, 0, 0], ...poseThumb(thumbTip), ...FINGERS.flatMap(f => fingers[f])];
+};
+
+// Palm-local -> normalised image coordinates, with a random size, position and small tilt
+const toImage = (points: Vec3[], random: () => number): Landmark[] => {
+  const size = 0.16 + random() * 0.1;
+  const tilt = (random() * 2 - 1) * 0.35;
+  const [cx, cy] = [0.35 + random() * 0.3, 0.55 + random() * 0.2];
+  const [cos, sin] = [Math.cos(tilt), Math.sin(tilt)];
+  return points.map(([x, y, z]) => {
+    const [rx, ry] = [x * cos - y * sin, x * sin + y * cos];
+    // Palm to the camera, fingers up (-y) and curling towards the camera (-z). The thumb side
+    // goes to larger x: a right hand in the canonical frame (geometry.ts).
+    return {
+      x: cx + rx * size + gaussian(random) * 0.002,
+      y: cy - ry * size + gaussian(random) * 0.002,
+      z: z * size + gaussian(random) * 0.002
+    };
+  });
+};
+
+// Deterministic for given options, so every install starts from the same model
+export const createBaselineDataset = (options: Partial<BaselineOptions> = {}): TrainingSample[] => {
+  const { samplesPerClass, seed } = { ...DEFAULT_BASELINE_OPTIONS, ...options };
+  const random = createRandom(seed);
+  const handedness = { label: "Right" as const, score: 1 };
+  return BASELINE_LABELS.flatMap(label =>
+    Array.from({ length: samplesPerClass }, (): TrainingSample => {
+      const landmarks = toImage(poseHand(HANDSHAPES[label], random), random);
+      return { label, vector: toFeatureVector(landmarks, { handedness }), landmarks, handedness };
+    })
+  );
+};
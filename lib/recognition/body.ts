@@ -0,0 +1,100 @@
+import type { BodyAnchors, Landmark, RecognitionContext, Recognizer, SignLocation, TrainingSample } from "./types";
+import { UNKNOWN_LABEL } from "./rejection";
+
+// --- Body-Relative Location ---
+// Hand landmarks alone can't tell a sign made at the chin from the same hand shape at the
+// chest. With face or pose tracking on, a few anchors on the body give the hand a location:
+//   face -> forehead, nose and chin from the face mesh
+//   pose -> the same, estimated from the eyes and mouth, plus the chest between the shoulders
+// Distances are measured in face heights (forehead -> chin), so zones scale with the signer's
+// distance from the camera.
+
+export type BodyTracking = "off" | "face" | "pose";
+
+export const SIGN_LOCATIONS: SignLocation[] = ["forehead", "chin", "chest", "neutral"];
+
+const midpoint = (a: Landmark, b: Landmark): Landmark => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+const extend = (from: Landmark, to: Landmark, t: number): Landmark => ({
+  x: to.x + (to.x - from.x) * t, y: to.y + (to.y - from.y) * t, z: to.z + (to.z - from.z) * t
+});
+const distance2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Face mesh (478 points): 10 top of the forehead, 151 mid-forehead, 1 nose tip, 152 chin
+export const anchorsFromFace = (face: Landmark[]): BodyAnchors | null => {
+  if (face.length < 468) return null;
+  const faceHeight = distance2D(face[10], face[152]);
+  if (faceHeight < 1e-3) return null;
+  return { forehead: face[151], nose: face[1], chin: face[152], chest: null, faceHeight };
+};
+
+// Pose (33 points): 0 nose, 2 / 5 eyes, 9 / 10 mouth corners, 11 / 12 shoulders
+export const anchorsFromPose = (pose: Landmark[]): BodyAnchors | null => {
+  if (pose.length < 13) return null;
+  const eyes = midpoint(pose[2], pose[5]);
+  const mouth = midpoint(pose[9], pose[10]);
+  const forehead = extend(mouth, eyes, 0.6);
+  const chin = extend(eyes, mouth, 0.8);
+  const faceHeight = distance2D(forehead, chin);
+  if (faceHeight < 1e-3) return null;
+  const shoulders = midpoint(pose[11], pose[12]);
+  return { forehead, nose: pose[0], chin, chest: extend(chin, shoulders, 0.5), faceHeight };
+};
+
+// --- Zones ---
+// A hand is in a zone when any fingertip or the palm centre is within the zone's radius of
+// its anchor (in face heights); the closest zone wins. Without pose tracking the chest is
+// assumed to sit a face and a half below the chin.
+
+const ZONE_RADIUS: Record<Exclude<SignLocation, "neutral">, number> = {
+  forehead: 0.45,
+  chin: 0.45,
+  chest: 1.1
+};
+
+const CHEST_BELOW_CHIN = 1.5;
+
+const zoneAnchor = (zone: Exclude<SignLocation, "neutral">, anchors: BodyAnchors): Landmark =>
+  zone === "chest"
+    ? anchors.chest ?? { ...anchors.chin, y: anchors.chin.y + anchors.faceHeight * CHEST_BELOW_CHIN }
+    : anchors[zone];
+
+const HAND_POINTS = [4, 8, 12, 16, 20];
+
+export const locateHand = (hand: Landmark[], anchors: BodyAnchors): SignLocation => {
+  if (hand.length < 21) return "neutral";
+  const points = [...HAND_POINTS.map(i => hand[i]), midpoint(hand[0], hand[9])];
+  let best: { zone: SignLocation, distance: number } = { zone: "neutral", distance: Infinity };
+  (Object.keys(ZONE_RADIUS) as Exclude<SignLocation, "neutral">[]).forEach(zone => {
+    const anchor = zoneAnchor(zone, anchors);
+    const distance = Math.min(...points.map(p => distance2D(p, anchor))) / anchors.faceHeight;
+    if (distance <= ZONE_RADIUS[zone] && distance < best.distance) best = { zone, distance };
+  });
+  return best.zone;
+};
+
+// --- Learned Signs ---
+// Samples captured with body tracking on remember their zone. When the body is tracked, a
+// label that was only ever trained in other zones is dropped from the result, so a sign
+// trained at the chin doesn't fire at the chest. Labels without zone data always pass.
+
+export type LocationIndex = Record<string, SignLocation[]>;
+
+export const indexLocations = (trainingData: TrainingSample[]): LocationIndex => {
+  const index: Record<string, Set<SignLocation>> = {};
+  trainingData.forEach(s => { if (s.location) (index[s.label] ??= new Set()).add(s.location); });
+  return Object.fromEntries(Object.entries(index).map(([label, zones]) => [label, Array.from(zones)]));
+};
+
+export const withLocationZones = (recognizer: Recognizer, index: LocationIndex): Recognizer => ({
+  recognize: (landmarks: Landmark[], context?: RecognitionContext) => {
+    const result = recognizer.recognize(landmarks, context);
+    if (!result || !context?.body || Object.keys(index).length === 0) return result;
+    const here = locateHand(landmarks, context.body);
+    const candidates = [result, ...result.alternatives].filter(c =>
+      c.label === UNKNOWN_LABEL || !index[c.label] || index[c.label].includes(here)
+    );
+    if (candidates.length === 0) return null;
+    const [winner, ...alternatives] = candidates;
+    return { label: winner.label, confidence: winner.confidence, alternatives };
+  }
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { Landmark } from "./types";
+import { type CalibrationFrame, type CalibrationPose, deriveCalibration } from "./calibration";
+import { ALPHABET_RULES } from "./geometric";
+
+// --- Synthetic Poses ---
+// A right hand in palm lengths, wrist at the origin, fingers up (-y). Each finger lies on a
+// ray from the wrist (knuckle at 1, middle joint at 1.4), so its extension ratio is exactly
+// tip distance / 1.4, and `spread` is the angle between neighbouring fingers.
+
+interface PoseSpec {
+  extension: number;
+  spread: number; // Degrees
+  thumbAway: number; // Thumb tip -> pinky knuckle over thumb MCP -> pinky knuckle
+  pinch?: number; // Thumb tip this far from the index tip instead (palm lengths)
+}
+
+const PIP = 1.4;
+const THUMB_MCP = { x: 0.5, y: -0.4 };
+const right = { label: "Right" as const, score: 1 };
+
+const ray = (angleDeg: number, r: number) => {
+  const a = angleDeg * Math.PI / 180;
+  return { x: Math.sin(a) * r, y: -Math.cos(a) * r };
+};
+
+const pose = ({ extension, spread, thumbAway, pinch }: PoseSpec): CalibrationFrame => {
+  // Index, middle, ring, pinky; index towards the thumb (+x)
+  const fingers = [1, 0, -1, -2].map(k => [1, PIP, (PIP + extension * PIP) / 2, extension * PIP].map(r => ray(k * spread, r)));
+  const pinkyMCP = fingers[3][0];
+  const indexTip = fingers[0][3];
+  const thumbTip = pinch !== undefined
+    ? { x: indexTip.x + pinch, y: indexTip.y }
+    : { x: pinkyMCP.x + (THUMB_MCP.x - pinkyMCP.x) * thumbAway, y: pinkyMCP.y + (THUMB_MCP.y - pinkyMCP.y) * thumbAway };
+  const thumb = [{ x: 0.3, y: -0.2 }, THUMB_MCP, { x: (THUMB_MCP.x + thumbTip.x) / 2, y: (THUMB_MCP.y + thumbTip.y) / 2 }, thumbTip];
+  // Into image coordinates: a hand a fifth of the frame tall
+  const landmarks: Landmark[] = [{ x: 0, y: 0 }, ...thumb, ...fingers.flat()].map(p => ({ x: 0.5 + p.x * 0.2, y: 0.9 + p.y * 0.2, z: 0 }));
+  return { landmarks, handedness: right };
+};
+
+// One frame per value, so the quantiles have something to cut
+const frames = (values: number[], spec: (v: number) => PoseSpec) => values.map(v => pose(spec(v)));
+const steps = (from: number, to: number, count: number) => Array.from({ length: count }, (_, i) => from + (to - from) * i / (count - 1));
+
+const SESSION: Record<CalibrationPose, CalibrationFrame[]> = {
+  // Extension 1.0-1.1, one stray frame at 1.5 that the 90th percentile leaves out
+  fist: frames([...steps(1.0, 1.1, 10), 1.5], extension => ({ extension, spread: 3, thumbAway: 1 })),
+  open: frames(steps(1.7, 1.8, 11), extension => ({ extension, spread: 3, thumbAway: 1 })),
+  spread: frames(steps(1.7, 1.8, 11), extension => ({ extension, spread: 15, thumbAway: 2 })),
+  pinch: frames(steps(0.05, 0.1, 11), pinch => ({ extension: 1.7, spread: 3, thumbAway: 1, pinch }))
+};
+
+const { thresholds: defaults } = ALPHABET_RULES;
+
+describe("deriveCalibration", () => {
+  it("splits curled from straight fingers near the straight end", () => {
+    const { calibration, warnings } = deriveCalibration(SESSION);
+    expect(warnings).toEqual([]);
+    // 90th percentile of the fist (1.1, not the stray 1.5), 80% of the way to the 10th of the straight poses
+    const [top, bottom] = [1.1, 1.71];
+    expect(calibration.thresholds.fingerExtended).toBeCloseTo(top + (bottom - top) * 0.8, 9);
+    expect(calibration.thresholds.thumbAway).toBeCloseTo(1 + (2 - 1) * 0.9, 9);
+  });
+
+  it("puts fingersTogether halfway between the open and spread gaps", () => {
+    const gap = (extension: number, spread: number) => 2 * extension * PIP * Math.sin(spread * Math.PI / 360);
+    const { calibration } = deriveCalibration(SESSION);
+    expect(calibration.thresholds.fingersTogether).toBeCloseTo((gap(1.79, 3) + gap(1.71, 15)) / 2, 9);
+  });
+
+  it("scales every contact threshold by the signer's pinch", () => {
+    const { calibration } = deriveCalibration(SESSION);
+    const factor = (0.095 + 0.15) / defaults.thumbIndexTouch;
+    ["thumbIndexTouch", "fCircle", "thumbMiddleTouch"].forEach(name => {
+      expect(calibration.thresholds[name], name).toBeCloseTo(defaults[name] * factor, 9);
+    });
+  });
+
+  it("keeps contact thresholds within twice the defaults", () => {
+    const pinch = frames(steps(0.9, 1, 11), gap => ({ extension: 1.7, spread: 3, thumbAway: 1, pinch: gap }));
+    const { calibration } = deriveCalibration({ ...SESSION, pinch });
+    expect(calibration.thresholds.thumbIndexTouch).toBeCloseTo(defaults.thumbIndexTouch * 2, 9);
+  });
+
+  it("sets fistTight from the fist's reach, capped below curvedReach", () => {
+    // Index tip to knuckle: extension * 1.4 - 1
+    expect(deriveCalibration(SESSION).calibration.thresholds.fistTight).toBeCloseTo(1.1 * PIP - 1 + 0.1, 9);
+    const looseFist = frames(steps(1.3, 1.4, 11), extension => ({ extension, spread: 3, thumbAway: 1 }));
+    expect(deriveCalibration({ ...SESSION, fist: looseFist }).calibration.thresholds.fistTight).toBe(defaults.curvedReach);
+  });
+
+  it("leaves thresholds at their defaults when a pose is missing", () => {
+    const { calibration, warnings } = deriveCalibration({ open: SESSION.open, fist: SESSION.fist });
+    expect(Object.keys(calibration.thresholds).sort()).toEqual(["fingerExtended", "fistTight"]);
+    expect(warnings).toEqual([
+      "thumbAway: not enough frames of a tucked and an outstretched thumb",
+      "fingersTogether: not enough frames of fingers together and spread",
+      "contacts: not enough frames of the pinch"
+    ]);
+  });
+
+  it("leaves a threshold at its default when the poses overlap", () => {
+    const { calibration, warnings } = deriveCalibration({ ...SESSION, fist: SESSION.open });
+    expect(calibration.thresholds.fingerExtended).toBeUndefined();
+    expect(warnings).toContain("fingerExtended: curled and straight fingers looked too alike");
+  });
+});
@@ -0,0 +1,129 @@
+import type { Handedness, Landmark } from "./types";
+import { type FingerName, dist, getFingerExtension, getPalmScale, getThumbExtension, toCanonicalHand } from "./geometry";
+import type { RuleSet } from "./rules";
+import { ALPHABET_RULES } from "./geometric";
+
+// --- Hand Calibration ---
+// The geometric thresholds are tuned for an average hand: a long thumb can look "out" while
+// tucked, and stiff fingers may never clear the extended ratio. A short session of four
+// poses measures the signer's own range, and each threshold is placed halfway between the
+// poses it has to tell apart (or nearer one end, see FINGER_LEAN):
+//   fingerExtended  -> curled fingers (fist) vs straight ones (open palm, spread)
+//   thumbAway       -> thumb against the hand (fist, open palm) vs out (spread)
+//   fingersTogether -> index and middle together (open palm) vs apart (spread)
+//   contacts        -> how close the signer's thumb and index tips get (pinch), applied to
+//                      every tip-contact threshold
+//   fistTight       -> how far the index tip stays from its knuckle in a fist
+// The result overrides the rule set's thresholds by name (see evaluateRules).
+
+export type CalibrationPose = "open" | "fist" | "pinch" | "spread";
+
+export interface CalibrationStep {
+  pose: CalibrationPose;
+  prompt: string;
+  samples: number;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { pose: "open", prompt: "Open palm: fingers straight and together, thumb against the side of your hand", samples: 15 },
+  { pose: "fist", prompt: "Make a fist with your thumb across the front of your fingers", samples: 15 },
+  { pose: "pinch", prompt: "Pinch your thumb and index fingertips together, other fingers up", samples: 15 },
+  { pose: "spread", prompt: "Spread all five fingers as wide as they go, thumb out", samples: 15 }
+];
+
+export const CALIBRATION_VERSION = 1;
+
+export interface HandCalibration {
+  version: number;
+  createdAt: string; // ISO timestamp
+  thresholds: Record<string, number>; // Overrides for the rule set's thresholds
+}
+
+export interface CalibrationFrame {
+  landmarks: Landmark[];
+  handedness: Handedness | null;
+}
+
+export interface CalibrationResult {
+  calibration: HandCalibration;
+  warnings: string[]; // Thresholds left at their defaults, and why
+}
+
+// Thresholds a pinch rescales (thumb or index tips touching something)
+const CONTACT_THRESHOLDS = ["thumbIndexTouch", "fCircle", "thumbMiddleTouch"];
+const CONTACT_MARGIN = 0.15; // Palm lengths added to the signer's pinch gap
+const MAX_CONTACT_SCALE = 2; // Personal contact thresholds stay within this factor of the defaults
+const FIST_MARGIN = 0.1; // Palm lengths added to the signer's fist reach
+// Hooked and curved fingers (X, C) and a thumb upright at the side (A) fall between the
+// calibration poses, so those cuts sit nearer the straight / outstretched end
+const FINGER_LEAN = 0.8;
+const THUMB_LEAN = 0.9;
+
+const FINGERS: FingerName[] = ["Index", "Middle", "Ring", "Pinky"];
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+};
+
+const measure = ({ landmarks, handedness }: CalibrationFrame) => {
+  const hand = toCanonicalHand(landmarks, handedness);
+  const scale = getPalmScale(hand);
+  return {
+    extensions: FINGERS.map(f => getFingerExtension(hand, f)),
+    thumbAway: getThumbExtension(hand).away,
+    pinch: dist(hand[4], hand[8], scale),
+    fingerGap: dist(hand[8], hand[12], scale),
+    indexReach: dist(hand[8], hand[5], scale)
+  };
+};
+
+export const deriveCalibration = (
+  frames: Partial<Record<CalibrationPose, CalibrationFrame[]>>,
+  defaults: RuleSet["thresholds"] = ALPHABET_RULES.thresholds
+): CalibrationResult => {
+  const measured = Object.fromEntries(
+    CALIBRATION_STEPS.map(({ pose }) => [pose, (frames[pose] ?? []).filter(f => f.landmarks.length === 21).map(measure)])
+  ) as Record<CalibrationPose, ReturnType<typeof measure>[]>;
+  const thresholds: Record<string, number> = {};
+  const warnings: string[] = [];
+
+  // Between the low pose's upper range and the high pose's lower range (`lean` of the way up),
+  // if they don't overlap
+  const split = (name: string, low: number[], high: number[], what: string, lean = 0.5) => {
+    if (low.length === 0 || high.length === 0) {
+      warnings.push(`${name}: not enough frames of ${what}`);
+      return;
+    }
+    const [top, bottom] = [quantile(low, 0.9), quantile(high, 0.1)];
+    if (top >= bottom) {
+      warnings.push(`${name}: ${what} looked too alike`);
+      return;
+    }
+    thresholds[name] = top + (bottom - top) * lean;
+  };
+
+  const { open, fist, pinch, spread } = measured;
+  split("fingerExtended", fist.flatMap(m => m.extensions), [...open, ...spread].flatMap(m => m.extensions), "curled and straight fingers", FINGER_LEAN);
+  split("thumbAway", [...fist, ...open].map(m => m.thumbAway), spread.map(m => m.thumbAway), "a tucked and an outstretched thumb", THUMB_LEAN);
+  split("fingersTogether", open.map(m => m.fingerGap), spread.map(m => m.fingerGap), "fingers together and spread");
+
+  if (pinch.length > 0) {
+    const touch = quantile(pinch.map(m => m.pinch), 0.9) + CONTACT_MARGIN;
+    const factor = Math.min(MAX_CONTACT_SCALE, Math.max(1 / MAX_CONTACT_SCALE, touch / defaults.thumbIndexTouch));
+    CONTACT_THRESHOLDS.filter(name => name in defaults).forEach(name => { thresholds[name] = defaults[name] * factor; });
+  } else {
+    warnings.push("contacts: not enough frames of the pinch");
+  }
+
+  if (fist.length > 0) {
+    // Must stay under the reach that tells a curved (C / O) hand from a fist
+    const reach = quantile(fist.map(m => m.indexReach), 0.9) + FIST_MARGIN;
+    thresholds.fistTight = Math.min(reach, defaults.curvedReach ?? Infinity);
+  }
+
+  return {
+    calibration: { version: CALIBRATION_VERSION, createdAt: new Date().toISOString(), thresholds },
+    warnings
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import type { Landmark } from "./types";
+import { assessCoverage } from "./capture";
+
+// Just enough of a hand for coverage: the wrist and a middle knuckle at `degrees`
+const handAt = (degrees: number): Landmark[] => {
+  const angle = degrees * Math.PI / 180;
+  return Array.from({ length: 21 }, (_, i) => i === 9
+    ? { x: 0.5 + 0.1 * Math.cos(angle), y: 0.5 + 0.1 * Math.sin(angle), z: 0 }
+    : { x: 0.5, y: 0.5, z: 0 });
+};
+
+describe("assessCoverage", () => {
+  it("measures the angle spread across the +-180 degree seam", () => {
+    expect(assessCoverage([178, -179, 179.5].map(handAt)).angleRange).toBeCloseTo(3);
+    expect(assessCoverage([170, -170].map(handAt)).angleRange).toBeCloseTo(20);
+  });
+
+  it("measures the angle spread of an upright hand", () => {
+    expect(assessCoverage([-80, -100, -95].map(handAt)).angleRange).toBeCloseTo(20);
+  });
+});
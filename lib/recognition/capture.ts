@@ -0,0 +1,135 @@
+import type { Handedness, Landmark } from "./types";
+import { getPalmScale } from "./geometry";
+import { createTransitionGate } from "./transition";
+
+// --- Guided Capture ---
+// Training samples should be steady, confidently tracked frames that vary in distance and
+// angle. The wizard walks through CAPTURE_STEPS, the quality filter drops frames caught
+// mid-movement or tracked with a low handedness score (MediaPipe's per-hand confidence; the
+// hand landmarker doesn't fill in per-landmark presence), and assessCoverage tells the user
+// when a label has enough variety to generalise.
+
+export interface CaptureStep {
+  prompt: string;
+  samples: number;
+}
+
+export const CAPTURE_STEPS: CaptureStep[] = [
+  { prompt: "Hold the sign at a comfortable distance", samples: 10 },
+  { prompt: "Move your hand closer to the camera", samples: 8 },
+  { prompt: "Move your hand further away", samples: 8 },
+  { prompt: "Tilt your hand slightly to one side", samples: 8 },
+  { prompt: "Tilt your hand slightly to the other side", samples: 8 },
+  { prompt: "Turn your palm a little toward or away from the camera", samples: 8 },
+  { prompt: "Switch to your other hand, keeping the first one out of view", samples: 8 }
+];
+
+export const CAPTURE_COUNTDOWN_SECONDS = 3;
+
+// --- Quality Filter ---
+
+export type CaptureRejection = "no-hand" | "low-score" | "motion" | "cooldown";
+
+export interface CaptureQualityOptions {
+  minHandScore: number; // 0-1, below this the tracking is too unsure to train on
+  maxSpeed: number; // Palm lengths / s, above this the frame is likely blurred or mid-transition
+  cooldownMs: number; // Minimum gap between accepted frames, so a burst isn't all duplicates
+}
+
+export const DEFAULT_CAPTURE_QUALITY: CaptureQualityOptions = {
+  minHandScore: 0.8,
+  maxSpeed: 1.0,
+  cooldownMs: 200
+};
+
+export const createCaptureQualityFilter = (options: Partial<CaptureQualityOptions> = {}) => {
+  const { minHandScore, maxSpeed, cooldownMs } = { ...DEFAULT_CAPTURE_QUALITY, ...options };
+  // Only the smoothed speed is used; the gate's own thresholds don't matter here
+  const motion = createTransitionGate();
+  let lastAccepted = -Infinity;
+
+  const reset = () => {
+    motion.reset();
+    lastAccepted = -Infinity;
+  };
+
+  // Returns null when the frame is good to keep, otherwise why it was dropped
+  const check = (landmarks: Landmark[], timestamp: number, handedness?: Handedness | null): CaptureRejection | null => {
+    if (landmarks.length === 0) {
+      motion.reset();
+      return "no-hand";
+    }
+    const { speed } = motion.push(landmarks, timestamp);
+    if (handedness && handedness.score < minHandScore) return "low-score";
+    if (speed > maxSpeed) return "motion";
+    if (timestamp - lastAccepted < cooldownMs) return "cooldown";
+    lastAccepted = timestamp;
+    return null;
+  };
+
+  return { check, reset };
+};
+
+export type CaptureQualityFilter = ReturnType<typeof createCaptureQualityFilter>;
+
+// --- Coverage ---
+// Distance is read from the palm's size in the image, angle from the in-plane direction of
+// the wrist -> middle knuckle line. A label is covered once it has enough samples AND they
+// span enough of both. Angles wrap around, so their spread is measured on the circle.
+
+export interface CoverageOptions {
+  minSamples: number;
+  minScaleRatio: number; // Largest / smallest palm size
+  minAngleRange: number; // Degrees
+}
+
+export const DEFAULT_COVERAGE_OPTIONS: CoverageOptions = {
+  minSamples: 40,
+  minScaleRatio: 1.3,
+  minAngleRange: 25
+};
+
+export interface Coverage {
+  count: number;
+  scaleRatio: number;
+  angleRange: number;
+  progress: number; // 0-1
+  sufficient: boolean;
+  missing: string[]; // What to vary next, in words
+}
+
+// Smallest arc (degrees) holding every angle: the full circle minus the widest empty gap
+const angularSpread = (angles: number[]) => {
+  if (angles.length < 2) return 0;
+  const sorted = [...angles].sort((a, b) => a - b);
+  const gaps = sorted.map((a, i) => (i + 1 < sorted.length ? sorted[i + 1] : sorted[0] + 360) - a);
+  return 360 - Math.max(...gaps);
+};
+
+export const assessCoverage = (hands: Landmark[][], options: Partial<CoverageOptions> = {}): Coverage => {
+  const settings = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+  const valid = hands.filter(h => h.length === 21);
+  const scales = valid.map(getPalmScale);
+  const angles = valid.map(h => Math.atan2(h[9].y - h[0].y, h[9].x - h[0].x) * 180 / Math.PI);
+  const scaleRatio = scales.length > 0 ? Math.max(...scales) / Math.min(...scales) : 1;
+  const angleRange = angularSpread(angles);
+
+  const parts = [
+    Math.min(1, valid.length / settings.minSamples),
+    Math.min(1, (scaleRatio - 1) / (settings.minScaleRatio - 1)),
+    Math.min(1, angleRange / settings.minAngleRange)
+  ];
+  const missing: string[] = [];
+  if (parts[0] < 1) missing.push(`${settings.minSamples - valid.length} more samples`);
+  if (parts[1] < 1) missing.push("more variety in distance");
+  if (parts[2] < 1) missing.push("more variety in hand angle");
+
+  return {
+    count: valid.length,
+    scaleRatio,
+    angleRange,
+    progress: parts.reduce((a, b) => a + b, 0) / parts.length,
+    sufficient: missing.length === 0,
+    missing
+  };
+};
@@ -0,0 +1,54 @@
+import type { Classifier, RecognitionResult, ScoredLabel, TrainingSample } from "./types";
+import { calculateEuclideanDistance } from "./distance";
+
+// --- Nearest Centroid ---
+// One mean vector per label (and per vector length, so one- and two-handed recordings of a
+// label stay apart). Tiny and fast, but assumes each sign forms a single round cluster.
+// Confidence falls off with the distance beyond the best match, scaled by how spread out
+// the training samples are around their centroids.
+
+interface Centroid { label: string; vector: number[]; }
+
+const mean = (vectors: number[][]) => {
+  const sum = new Array(vectors[0].length).fill(0);
+  vectors.forEach(v => v.forEach((x, i) => { sum[i] += x; }));
+  return sum.map(x => x / vectors.length);
+};
+
+export const trainCentroidClassifier = (trainingData: TrainingSample[]): Classifier => {
+  const groups: Record<string, number[][]> = {};
+  trainingData.forEach(s => { (groups[`${s.vector.length}|${s.label}`] ??= []).push(s.vector); });
+  const centroids: Centroid[] = Object.entries(groups).map(([key, vectors]) => ({
+    label: key.slice(key.indexOf("|") + 1),
+    vector: mean(vectors)
+  }));
+
+  // Mean sample-to-own-centroid distance; the softmax temperature below
+  const byKey = new Map(Object.keys(groups).map((key, i) => [key, centroids[i]]));
+  const spread = trainingData.length === 0 ? 1 : trainingData.reduce((total, s) => {
+    const own = byKey.get(`${s.vector.length}|${s.label}`);
+    return total + (own ? calculateEuclideanDistance(s.vector, own.vector) : 0);
+  }, 0) / trainingData.length || 1;
+
+  const predict = (vector: number[]): RecognitionResult | null => {
+    // Best centroid per label among those the input can be compared with (see sampleDistance)
+    const best: Record<string, number> = {};
+    centroids.forEach(c => {
+      if (c.vector.length > vector.length) return;
+      const d = calculateEuclideanDistance(vector.slice(0, c.vector.length), c.vector);
+      if (best[c.label] === undefined || d < best[c.label]) best[c.label] = d;
+    });
+    const labels = Object.keys(best);
+    if (labels.length === 0) return null;
+    const nearest = Math.min(...labels.map(l => best[l]));
+    const weights = labels.map(l => Math.exp(-(best[l] - nearest) / spread));
+    const total = weights.reduce((a, b) => a + b, 0);
+    const ranked: ScoredLabel[] = labels
+      .map((label, i) => ({ label, confidence: (weights[i] / total) * 100 }))
+      .sort((a, b) => b.confidence - a.confidence);
+    const [winner, ...alternatives] = ranked;
+    return { ...winner, alternatives };
+  };
+
+  return { predict };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { Classifier, TrainingSample } from "./types";
+import { type ClassifierKind, trainClassifier } from "./classifier";
+import { createRandom, gaussian } from "./random";
+
+// --- Toy Sets ---
+// Small, well-separated problems every backend should get right, so a broken update rule or
+// a mixed-up label index shows up as accuracy, not as a subtly worse model.
+
+const random = createRandom(5);
+
+// Three tight clusters in 6 dimensions
+const CENTRES: Record<string, number[]> = {
+  a: [2, 0, 0, 0, 1, 0],
+  b: [0, 2, 0, 0, 0, 1],
+  c: [0, 0, 2, 1, 0, 0]
+};
+const blobs = (perClass: number): TrainingSample[] =>
+  Object.entries(CENTRES).flatMap(([label, centre]) =>
+    Array.from({ length: perClass }, () => ({ label, vector: centre.map(v => v + gaussian(random) * 0.3) })));
+
+// Opposite quadrants share a label: no single line separates them
+const xor = (count: number): TrainingSample[] =>
+  Array.from({ length: count }, () => {
+    const [x, y] = [random() * 2 - 1, random() * 2 - 1];
+    return { label: x * y > 0 ? "same" : "opposite", vector: [x, y] };
+  }).filter(({ vector: [x, y] }) => Math.abs(x) > 0.15 && Math.abs(y) > 0.15);
+
+const accuracy = (classifier: Classifier, test: TrainingSample[]) =>
+  test.filter(s => classifier.predict(s.vector)?.label === s.label).length / test.length;
+
+describe("trainClassifier", () => {
+  const train = blobs(30);
+  const test = blobs(20);
+
+  (["knn", "centroid", "logistic", "mlp"] as ClassifierKind[]).forEach(kind => {
+    it(`${kind} separates well-spaced clusters`, () => {
+      expect(accuracy(trainClassifier(train, { kind }), test)).toBeGreaterThanOrEqual(0.95);
+    });
+  });
+
+  it("mlp learns a boundary logistic regression can't", () => {
+    const [xorTrain, xorTest] = [xor(400), xor(200)];
+    const mlp = trainClassifier(xorTrain, { kind: "mlp", epochs: 150 });
+    expect(accuracy(mlp, xorTest)).toBeGreaterThanOrEqual(0.9);
+    expect(accuracy(trainClassifier(xorTrain, { kind: "logistic" }), xorTest)).toBeLessThan(0.75);
+  });
+
+  it("ranks the runners-up after the winner", () => {
+    const result = trainClassifier(train, { kind: "centroid" }).predict(CENTRES.a);
+    expect(result?.label).toBe("a");
+    expect(result?.alternatives.map(a => a.label).sort()).toEqual(["b", "c"]);
+    expect(result?.alternatives.every(a => a.confidence <= result.confidence)).toBe(true);
+  });
+});
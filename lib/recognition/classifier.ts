@@ -0,0 +1,70 @@
+import type { Classifier, Landmark, RecognitionContext, Recognizer, TrainingSample } from "./types";
+import { DEFAULT_FEATURE_SCHEMA, toFeatureVector } from "./features";
+import type { DistanceMetric } from "./distance";
+import { type KNNIndex, K, createKNNClassifier } from "./knn";
+import { trainCentroidClassifier } from "./centroid";
+import { DEFAULT_MLP_OPTIONS, trainMLPClassifier } from "./mlp";
+
+// --- Classifier Backends (Custom Model) ---
+// Everything the custom model can be trained as. KNN and nearest-centroid are instant to
+// "train"; logistic regression and the MLP take a moment on large datasets, so callers
+// should train once per dataset change rather than per frame.
+
+export type ClassifierKind = "knn" | "centroid" | "logistic" | "mlp";
+
+export interface ClassifierConfig {
+  kind: ClassifierKind;
+  // knn
+  k: number;
+  metric: DistanceMetric;
+  index: KNNIndex;
+  // mlp (and logistic, which ignores hiddenUnits)
+  hiddenUnits: number;
+  epochs: number;
+  learningRate: number;
+}
+
+export const DEFAULT_CLASSIFIER_CONFIG: ClassifierConfig = {
+  kind: "knn",
+  k: K,
+  metric: "euclidean",
+  index: "brute",
+  hiddenUnits: DEFAULT_MLP_OPTIONS.hiddenUnits,
+  epochs: DEFAULT_MLP_OPTIONS.epochs,
+  learningRate: DEFAULT_MLP_OPTIONS.learningRate
+};
+
+export const CLASSIFIER_LABELS: Record<ClassifierKind, string> = {
+  knn: "K-Nearest Neighbours",
+  centroid: "Nearest Centroid",
+  logistic: "Logistic Regression",
+  mlp: "Neural Net (MLP)"
+};
+
+// Below this the custom model stays silent, whatever the backend
+export const MIN_TRAINING_SAMPLES = K;
+
+export const trainClassifier = (trainingData: TrainingSample[], config: Partial<ClassifierConfig> = {}): Classifier => {
+  const settings = { ...DEFAULT_CLASSIFIER_CONFIG, ...config };
+  switch (settings.kind) {
+    case "centroid":
+      return trainCentroidClassifier(trainingData);
+    case "logistic":
+    case "mlp":
+      return trainMLPClassifier(trainingData, {
+        hiddenUnits: settings.kind === "logistic" ? 0 : settings.hiddenUnits,
+        epochs: settings.epochs,
+        learningRate: settings.learningRate
+      });
+    default:
+      return createKNNClassifier(trainingData, settings);
+  }
+};
+
+// The schema must be the one the classifier's training vectors were extracted with
+export const createClassifierRecognizer = (classifier: Classifier, schema = DEFAULT_FEATURE_SCHEMA): Recognizer => ({
+  recognize: (landmarks: Landmark[], context?: RecognitionContext) => {
+    if (!landmarks || landmarks.length === 0) return null;
+    return classifier.predict(toFeatureVector(landmarks, context, schema));
+  }
+});
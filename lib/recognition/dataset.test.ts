@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { TrainingSample } from "./types";
+import { DATASET_FORMAT_VERSION, mergeSamples, parseDataset, serializeDataset } from "./dataset";
+import { createBaselineDataset } from "./baseline";
+import { DEFAULT_FEATURE_SCHEMA, LEGACY_FEATURE_SCHEMA, toFeatureVector } from "./features";
+import { toWristRelativeVector } from "./geometry";
+
+const samples = createBaselineDataset({ samplesPerClass: 1 }).slice(0, 3);
+const right = { label: "Right" as const, score: 1 };
+
+// What files written before feature extraction existed hold for each sample
+const legacySamples = samples.map(({ label, landmarks = [] }) => ({ label, vector: toWristRelativeVector(landmarks) }));
+
+const expectVectorsClose = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 9));
+};
+
+describe("parseDataset", () => {
+  it("reads back what serializeDataset writes", () => {
+    const loaded = parseDataset(serializeDataset(samples, { device: "test", handedness: "Left" }));
+    // JSON writes -0 as 0, and toEqual tells the two apart
+    expect(loaded.samples).toEqual(JSON.parse(JSON.stringify(samples)));
+    expect(loaded.migratedFrom).toBeNull();
+    expect(loaded.metadata).toMatchObject({ formatVersion: DATASET_FORMAT_VERSION, device: "test", handedness: "Left" });
+  });
+
+  it("migrates a version 1 file to the current feature schema", () => {
+    const loaded = parseDataset(JSON.stringify({ featureSchema: LEGACY_FEATURE_SCHEMA, samples: legacySamples }));
+    expect(loaded.metadata).toMatchObject({ formatVersion: 1, createdAt: null, device: null, handedness: null });
+    expect(loaded.migratedFrom).toEqual(LEGACY_FEATURE_SCHEMA);
+    loaded.samples.forEach((sample, i) => {
+      expect(sample.label).toBe(samples[i].label);
+      expectVectorsClose(sample.vector, toFeatureVector(samples[i].landmarks ?? [], { handedness: right }));
+    });
+  });
+
+  it("migrates a legacy bare array", () => {
+    const loaded = parseDataset(JSON.stringify(legacySamples));
+    expect(loaded.metadata.formatVersion).toBe(0);
+    expect(loaded.migratedFrom).toEqual(LEGACY_FEATURE_SCHEMA);
+    expect(loaded.samples.map(s => s.vector.length)).toEqual(samples.map(s => s.vector.length));
+  });
+
+  it("rebuilds vectors from the raw landmarks when a sample kept them", () => {
+    const kept = samples.map(({ label, landmarks, handedness }) => ({ label, landmarks, handedness, vector: [0] }));
+    const loaded = parseDataset(JSON.stringify({ formatVersion: 2, featureSchema: LEGACY_FEATURE_SCHEMA, samples: kept }));
+    loaded.samples.forEach((sample, i) => expectVectorsClose(sample.vector, samples[i].vector));
+  });
+
+  it("rejects malformed files with a readable message", () => {
+    const file = (fields: object) => JSON.stringify({ formatVersion: 2, featureSchema: DEFAULT_FEATURE_SCHEMA, samples, ...fields });
+    const withSample = (fields: object) => file({ samples: [{ ...samples[0], ...fields }] });
+    expect(() => parseDataset("{ not json")).toThrow("not valid JSON");
+    expect(() => parseDataset("42")).toThrow("not a JSON object or array");
+    expect(() => parseDataset(file({ formatVersion: DATASET_FORMAT_VERSION + 1 }))).toThrow("newer than this app supports");
+    expect(() => parseDataset(file({ featureSchema: { version: 99 } }))).toThrow("feature schema v99");
+    expect(() => parseDataset(file({ featureSchema: undefined }))).toThrow("Missing feature schema");
+    expect(() => parseDataset(file({ samples: undefined }))).toThrow("has no samples");
+    expect(() => parseDataset(withSample({ label: " " }))).toThrow("Sample 0 has no label");
+    expect(() => parseDataset(withSample({ vector: [1, "2"] }))).toThrow("invalid vector");
+    expect(() => parseDataset(withSample({ landmarks: samples[0].landmarks?.slice(1) }))).toThrow("expected 21 points");
+    expect(() => parseDataset(withSample({ handedness: { label: "Both", score: 1 } }))).toThrow("invalid handedness");
+    expect(() => parseDataset(withSample({ location: "knee" }))).toThrow('unknown location "knee"');
+  });
+
+  it("rejects a stored vector that doesn't fit its schema", () => {
+    const text = JSON.stringify({ featureSchema: LEGACY_FEATURE_SCHEMA, samples: [{ label: "A", vector: [1, 2, 3] }] });
+    expect(() => parseDataset(text)).toThrow(`Sample 0 ("A") doesn't match feature schema v1`);
+  });
+});
+
+describe("mergeSamples", () => {
+  it("skips samples that are already there", () => {
+    const extra: TrainingSample = { label: "B", vector: [1, 2, 3] };
+    expect(mergeSamples(samples, [...samples, extra])).toEqual([...samples, extra]);
+  });
+});
@@ -0,0 +1,163 @@
+import type { HandLabel, Handedness, Landmark, TrainingSample } from "./types";
+import {
+  type FeatureSchema,
+  DEFAULT_FEATURE_SCHEMA, FEATURE_SCHEMA_VERSION, LEGACY_FEATURE_SCHEMA,
+  rederiveFeatureVector, sameFeatureSchema, toFeatureVector
+} from "./features";
+import { SIGN_LOCATIONS } from "./body";
+
+// --- Dataset Files ---
+// Current format (version 2):
+//   {
+//     formatVersion: 2,
+//     featureSchema: { version, jointAngles, tipDistances },
+//     createdAt, device, handedness,          <- who/what recorded it
+//     samples: [{ label, vector, landmarks?, otherHand?, handedness?, timestamp?, augmented?, location? }]
+//   }
+// Older files are still read:
+//   version 1 -> { featureSchema, samples: [{ label, vector }] }
+//   version 0 -> a bare array of { label, vector } (feature schema v1)
+
+export const DATASET_FORMAT_VERSION = 2;
+
+export interface DatasetMetadata {
+  formatVersion: number;
+  createdAt: string | null; // ISO timestamp
+  device: string | null; // Free text, e.g. the browser's user agent
+  handedness: HandLabel | null; // Signer's dominant hand
+}
+
+export interface DatasetFile extends DatasetMetadata {
+  featureSchema: FeatureSchema;
+  samples: TrainingSample[];
+}
+
+export interface LoadedDataset {
+  samples: TrainingSample[];
+  metadata: DatasetMetadata;
+  migratedFrom: FeatureSchema | null; // Set when the vectors were re-derived on load
+}
+
+export const serializeDataset = (
+  samples: TrainingSample[],
+  metadata: Partial<Pick<DatasetMetadata, "device" | "handedness">> = {},
+  featureSchema = DEFAULT_FEATURE_SCHEMA
+) => JSON.stringify({
+  formatVersion: DATASET_FORMAT_VERSION,
+  featureSchema,
+  createdAt: new Date().toISOString(),
+  device: metadata.device ?? null,
+  handedness: metadata.handedness ?? null,
+  samples
+} satisfies DatasetFile);
+
+// --- Validation ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isLandmark = (value: unknown): value is Landmark => {
+  const p = value as Landmark;
+  return !!p && isFiniteNumber(p.x) && isFiniteNumber(p.y) && isFiniteNumber(p.z);
+};
+
+const isHand = (value: unknown): value is Landmark[] =>
+  Array.isArray(value) && value.length === 21 && value.every(isLandmark);
+
+const isHandLabel = (value: unknown): value is HandLabel => value === "Left" || value === "Right";
+
+const toSchema = (value: unknown): FeatureSchema => {
+  const s = value as FeatureSchema;
+  if (!s || typeof s.version !== "number") throw new Error("Missing feature schema");
+  if (s.version > FEATURE_SCHEMA_VERSION) {
+    throw new Error(`Dataset uses feature schema v${s.version}, this app only understands up to v${FEATURE_SCHEMA_VERSION}`);
+  }
+  return { version: s.version, jointAngles: !!s.jointAngles, tipDistances: !!s.tipDistances };
+};
+
+const toSample = (value: unknown, index: number): TrainingSample => {
+  const where = `Sample ${index}`;
+  const s = value as TrainingSample;
+  if (!s || typeof s !== "object") throw new Error(`${where} is not an object`);
+  if (typeof s.label !== "string" || !s.label.trim()) throw new Error(`${where} has no label`);
+  if (!Array.isArray(s.vector) || !s.vector.every(isFiniteNumber)) throw new Error(`${where} ("${s.label}") has an invalid vector`);
+
+  const sample: TrainingSample = { label: s.label, vector: s.vector };
+  if (s.landmarks !== undefined) {
+    if (!isHand(s.landmarks)) throw new Error(`${where} ("${s.label}") has invalid landmarks (expected 21 points)`);
+    sample.landmarks = s.landmarks;
+  }
+  if (s.otherHand !== undefined) {
+    if (!isHand(s.otherHand)) throw new Error(`${where} ("${s.label}") has an invalid second hand (expected 21 points)`);
+    sample.otherHand = s.otherHand;
+  }
+  if (s.handedness !== undefined && s.handedness !== null) {
+    const h = s.handedness as Handedness;
+    if (!isHandLabel(h.label) || !isFiniteNumber(h.score)) throw new Error(`${where} ("${s.label}") has invalid handedness`);
+    sample.handedness = { label: h.label, score: h.score };
+  }
+  if (s.timestamp !== undefined) {
+    if (!isFiniteNumber(s.timestamp)) throw new Error(`${where} ("${s.label}") has an invalid timestamp`);
+    sample.timestamp = s.timestamp;
+  }
+  if (s.augmented === true) sample.augmented = true;
+  if (s.location !== undefined) {
+    if (!SIGN_LOCATIONS.includes(s.location)) throw new Error(`${where} ("${s.label}") has an unknown location "${s.location}"`);
+    sample.location = s.location;
+  }
+  return sample;
+};
+
+// --- Migration ---
+
+// Brings samples into the target schema: from the raw landmarks when the sample kept them,
+// otherwise by re-deriving the stored vector. Throws if any of them can't be converted.
+export const migrateSamples = (samples: TrainingSample[], from: FeatureSchema, target = DEFAULT_FEATURE_SCHEMA) =>
+  samples.map((sample, i): TrainingSample => {
+    const vector = sample.landmarks && !sameFeatureSchema(from, target)
+      ? toFeatureVector(sample.landmarks, { handedness: sample.handedness, otherHand: sample.otherHand }, target)
+      : rederiveFeatureVector(sample.vector, from, target);
+    if (!vector) {
+      throw new Error(`Sample ${i} ("${sample.label}") doesn't match feature schema v${from.version} and can't be converted`);
+    }
+    return { ...sample, vector };
+  });
+
+// Throws with a readable message on malformed files or vectors that can't be re-derived
+export const parseDataset = (text: string, target = DEFAULT_FEATURE_SCHEMA): LoadedDataset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Dataset is not valid JSON");
+  }
+  if (!data || typeof data !== "object") throw new Error("Dataset is not a JSON object or array");
+
+  const file = data as Partial<DatasetFile>;
+  const formatVersion = Array.isArray(data) ? 0 : typeof file.formatVersion === "number" ? file.formatVersion : 1;
+  if (formatVersion > DATASET_FORMAT_VERSION) {
+    throw new Error(`Dataset format v${formatVersion} is newer than this app supports (v${DATASET_FORMAT_VERSION})`);
+  }
+
+  const schema = formatVersion === 0 ? LEGACY_FEATURE_SCHEMA : toSchema(file.featureSchema);
+  const rawSamples: unknown = formatVersion === 0 ? data : file.samples;
+  if (!Array.isArray(rawSamples)) throw new Error("Dataset has no samples");
+
+  const samples = migrateSamples(rawSamples.map(toSample), schema, target);
+  const metadata: DatasetMetadata = {
+    formatVersion,
+    createdAt: typeof file.createdAt === "string" ? file.createdAt : null,
+    device: typeof file.device === "string" ? file.device : null,
+    handedness: isHandLabel(file.handedness) ? file.handedness : null
+  };
+  return { samples, metadata, migratedFrom: sameFeatureSchema(schema, target) ? null : schema };
+};
+
+// --- Import ---
+
+const sampleKey = (sample: TrainingSample) => `${sample.label}|${sample.timestamp ?? ""}|${sample.vector.join(",")}`;
+
+// Appends incoming samples, skipping exact duplicates (e.g. the same file imported twice)
+export const mergeSamples = (current: TrainingSample[], incoming: TrainingSample[]) => {
+  const seen = new Set(current.map(sampleKey));
+  return [...current, ...incoming.filter(sample => !seen.has(sampleKey(sample)))];
+};
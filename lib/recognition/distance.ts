@@ -0,0 +1,38 @@
+// --- Distance Metrics ---
+// Shared by the KNN scan, its KD-tree index and the nearest-centroid classifier.
+// Vectors of different lengths are never comparable and come out as Infinity.
+
+export const calculateEuclideanDistance = (v1: number[], v2: number[]): number => {
+  if (v1.length !== v2.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < v1.length; i++) sum += Math.pow(v1[i] - v2[i], 2);
+  return Math.sqrt(sum);
+};
+
+export const calculateManhattanDistance = (v1: number[], v2: number[]): number => {
+  if (v1.length !== v2.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < v1.length; i++) sum += Math.abs(v1[i] - v2[i]);
+  return sum;
+};
+
+// 1 - cosine similarity: 0 for the same direction, 2 for opposite ones
+export const calculateCosineDistance = (v1: number[], v2: number[]): number => {
+  if (v1.length !== v2.length) return Infinity;
+  let dot = 0, n1 = 0, n2 = 0;
+  for (let i = 0; i < v1.length; i++) {
+    dot += v1[i] * v2[i];
+    n1 += v1[i] * v1[i];
+    n2 += v2[i] * v2[i];
+  }
+  if (n1 === 0 || n2 === 0) return 1;
+  return 1 - dot / Math.sqrt(n1 * n2);
+};
+
+export type DistanceMetric = "euclidean" | "manhattan" | "cosine";
+
+export const DISTANCE_FUNCTIONS: Record<DistanceMetric, (v1: number[], v2: number[]) => number> = {
+  euclidean: calculateEuclideanDistance,
+  manhattan: calculateManhattanDistance,
+  cosine: calculateCosineDistance
+};
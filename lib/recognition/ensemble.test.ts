@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { RecognitionResult } from "./types";
+import { createEnsemble } from "./ensemble";
+import { UNKNOWN_LABEL } from "./rejection";
+
+const result = (label: string, confidence: number, ...alternatives: [string, number][]): RecognitionResult => ({
+  label, confidence, alternatives: alternatives.map(([l, c]) => ({ label: l, confidence: c }))
+});
+
+describe("createEnsemble", () => {
+  it("lets the more confident source win when they name different signs", () => {
+    const ensemble = createEnsemble(["HELLO"]);
+    expect(ensemble.combine(result("A", 80), result("HELLO", 90))).toMatchObject({ label: "HELLO", source: "ml" });
+    expect(ensemble.combine(result("A", 95), result("HELLO", 60))).toMatchObject({ label: "A", source: "geometric", confidence: 95 });
+  });
+
+  it("lets the custom model override the rule for a letter it was trained on", () => {
+    const ensemble = createEnsemble(["A", "S"]);
+    expect(ensemble.combine(result("A", 90), result("S", 70, ["A", 30]))).toMatchObject({ label: "S", source: "ml" });
+  });
+
+  it("adds up both sources for a shared letter", () => {
+    const ensemble = createEnsemble(["A", "S"], { classWeights: { A: { geometric: 1, ml: 1 } } });
+    const combined = ensemble.combine(result("A", 60), result("S", 70, ["A", 30]));
+    // A scores 60 + 30 against S's 70, and reports the rules' confidence, which backs it most
+    expect(combined).toMatchObject({ label: "A", source: "geometric", confidence: 60 });
+    expect(combined?.alternatives).toEqual([{ label: "S", confidence: 70 }]);
+  });
+
+  it("falls back to the rules when the custom model rejects the frame", () => {
+    const ensemble = createEnsemble(["HELLO"]);
+    expect(ensemble.combine(result("B", 40), result(UNKNOWN_LABEL, 80, ["HELLO", 90]))).toMatchObject({ label: "B", source: "geometric" });
+    expect(ensemble.combine(null, result(UNKNOWN_LABEL, 80))).toBeNull();
+  });
+});
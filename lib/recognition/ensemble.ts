@@ -0,0 +1,76 @@
+import type { RecognitionResult, ScoredLabel } from "./types";
+import { UNKNOWN_LABEL } from "./rejection";
+
+// --- Hybrid Ensemble (Geometric + Custom Model) ---
+// Both recognizers vote on every frame. Each label a source proposes (winner and runners-up)
+// scores confidence x that source's weight for the label, and the best-scoring label wins.
+// By default:
+//   - labels the user trained are decided by the custom model alone, so a retrained built-in
+//     letter overrides the rule for it, and new signs extend the alphabet
+//   - every other label is decided by the geometric rules
+// classWeights overrides either weight per label. A custom-model "unknown" casts no vote,
+// which is what lets the built-in alphabet through once custom signs exist.
+
+export type PredictionSource = "geometric" | "ml";
+
+export interface EnsembleOptions {
+  geometricWeight: number; // Rule votes for labels that weren't trained
+  overriddenWeight: number; // Rule votes for labels that were trained (0 = custom model overrides)
+  mlWeight: number; // Custom-model votes
+  classWeights: Record<string, Partial<Record<PredictionSource, number>>>;
+}
+
+export const DEFAULT_ENSEMBLE_OPTIONS: EnsembleOptions = {
+  geometricWeight: 1,
+  overriddenWeight: 0,
+  mlWeight: 1,
+  classWeights: {}
+};
+
+export interface EnsembleResult extends RecognitionResult {
+  source: PredictionSource; // Which recognizer the winning label came from
+}
+
+export const createEnsemble = (trainedLabels: string[], options: Partial<EnsembleOptions> = {}) => {
+  const settings = { ...DEFAULT_ENSEMBLE_OPTIONS, ...options };
+  const trained = new Set(trainedLabels);
+
+  const weightOf = (label: string, source: PredictionSource) => {
+    const custom = settings.classWeights[label]?.[source];
+    if (custom !== undefined) return custom;
+    if (source === "ml") return trained.has(label) ? settings.mlWeight : 0;
+    return trained.has(label) ? settings.overriddenWeight : settings.geometricWeight;
+  };
+
+  const combine = (geometric: RecognitionResult | null, ml: RecognitionResult | null): EnsembleResult | null => {
+    const scores: Record<string, { score: number, confidence: number, source: PredictionSource }> = {};
+    const vote = (candidate: ScoredLabel, source: PredictionSource) => {
+      if (candidate.label === UNKNOWN_LABEL) return;
+      const score = candidate.confidence * weightOf(candidate.label, source);
+      if (score <= 0) return;
+      const current = scores[candidate.label];
+      // Report the confidence of whichever source backs the label most
+      if (!current) scores[candidate.label] = { score, confidence: candidate.confidence, source };
+      else {
+        if (score > current.score) Object.assign(current, { confidence: candidate.confidence, source });
+        current.score += score;
+      }
+    };
+    [geometric, ...(geometric?.alternatives ?? [])].forEach(c => { if (c) vote(c, "geometric"); });
+    if (ml && ml.label !== UNKNOWN_LABEL) [ml, ...ml.alternatives].forEach(c => vote(c, "ml"));
+
+    const ranked = Object.entries(scores).sort(([, a], [, b]) => b.score - a.score);
+    if (ranked.length === 0) return null;
+    const [[label, best], ...rest] = ranked;
+    return {
+      label,
+      confidence: best.confidence,
+      source: best.source,
+      alternatives: rest.map(([l, s]) => ({ label: l, confidence: s.confidence }))
+    };
+  };
+
+  return { combine, weightOf };
+};
+
+export type Ensemble = ReturnType<typeof createEnsemble>;
@@ -0,0 +1,94 @@
+// --- Evaluation Helpers ---
+// Shared by the replay CLI and any in-app accuracy reporting.
+
+export const NO_PREDICTION = "∅";
+
+export interface LabelledPrediction { expected: string; predicted: string | null; }
+
+export interface ConfusionMatrix {
+  labels: string[]; // Row/column order (expected labels first, then any extra predicted labels)
+  counts: Record<string, Record<string, number>>; // counts[expected][predicted]
+}
+
+export interface ClassAccuracy { label: string; correct: number; total: number; accuracy: number; }
+
+export const buildConfusionMatrix = (predictions: LabelledPrediction[]): ConfusionMatrix => {
+  const expected = new Set<string>();
+  const predicted = new Set<string>();
+  const counts: Record<string, Record<string, number>> = {};
+
+  predictions.forEach(({ expected: e, predicted: p }) => {
+    const col = p ?? NO_PREDICTION;
+    expected.add(e);
+    predicted.add(col);
+    if (!counts[e]) counts[e] = {};
+    counts[e][col] = (counts[e][col] || 0) + 1;
+  });
+
+  const rows = Array.from(expected).sort();
+  const extra = Array.from(predicted).filter(l => !expected.has(l)).sort();
+  return { labels: [...rows, ...extra], counts };
+};
+
+export const perClassAccuracy = (matrix: ConfusionMatrix): ClassAccuracy[] =>
+  Object.keys(matrix.counts).sort().map(label => {
+    const row = matrix.counts[label];
+    const total = Object.values(row).reduce((a, b) => a + b, 0);
+    const correct = row[label] || 0;
+    return { label, correct, total, accuracy: total > 0 ? correct / total : 0 };
+  });
+
+export const overallAccuracy = (matrix: ConfusionMatrix) => {
+  let correct = 0;
+  let total = 0;
+  Object.entries(matrix.counts).forEach(([label, row]) => {
+    Object.values(row).forEach(n => { total += n; });
+    correct += row[label] || 0;
+  });
+  return total > 0 ? correct / total : 0;
+};
+
+// Plain-text grid for terminals: rows are expected labels, columns are predictions
+export const formatConfusionMatrix = (matrix: ConfusionMatrix) => {
+  const rows = Object.keys(matrix.counts).sort();
+  const width = Math.max(3, ...matrix.labels.map(l => l.length)) + 1;
+  const pad = (s: string | number) => String(s).padStart(width);
+  const header = pad("") + " |" + matrix.labels.map(pad).join("");
+  const lines = rows.map(r =>
+    pad(r) + " |" + matrix.labels.map(c => pad(matrix.counts[r][c] || (r === c ? 0 : "."))).join("")
+  );
+  return [header, "-".repeat(header.length), ...lines].join("\n");
+};
+
+export interface ClassMetrics {
+  label: string;
+  support: number; // Samples whose true label is this class
+  precision: number; // Of everything predicted as this class, the share that really was
+  recall: number; // Of this class's samples, the share predicted correctly
+  f1: number;
+}
+
+export const perClassMetrics = (matrix: ConfusionMatrix): ClassMetrics[] =>
+  Object.keys(matrix.counts).sort().map(label => {
+    const row = matrix.counts[label];
+    const support = Object.values(row).reduce((a, b) => a + b, 0);
+    const correct = row[label] || 0;
+    const predictedAs = Object.values(matrix.counts).reduce((sum, r) => sum + (r[label] || 0), 0);
+    const precision = predictedAs > 0 ? correct / predictedAs : 0;
+    const recall = support > 0 ? correct / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { label, support, precision, recall, f1 };
+  });
+
+export interface Confusion { expected: string; predicted: string; count: number; }
+
+// Off-diagonal cells, most frequent first
+export const topConfusions = (matrix: ConfusionMatrix, limit = 5): Confusion[] =>
+  Object.entries(matrix.counts)
+    .flatMap(([expected, row]) =>
+      Object.entries(row)
+        .filter(([predicted]) => predicted !== expected)
+        .map(([predicted, count]) => ({ expected, predicted, count }))
+    )
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
@@ -0,0 +1,136 @@
+import type { Landmark, RecognitionContext } from "./types";
+import { toCanonicalHands, toTwoHandVector, toWristRelativeVector } from "./geometry";
+
+// --- Feature Extraction ---
+// Turns a hand into a vector that stays put when the signer moves closer or tilts the wrist:
+//   1. translate so the wrist is the origin
+//   2. scale by palm length (wrist -> middle MCP)
+//   3. rotate into the palm's own frame (y: wrist -> middle MCP, x: towards the index MCP)
+// optionally followed by joint angles and fingertip distances.
+//
+// Layout: [21 points x 3] [15 joint angles]? [10 tip distances]? [other hand 21 points x 3]?
+// The other hand is expressed in the dominant hand's palm frame, so their placement still counts.
+
+export interface FeatureSchema {
+  version: number;
+  jointAngles: boolean;
+  tipDistances: boolean;
+}
+
+export const FEATURE_SCHEMA_VERSION = 2;
+
+// Version 1 is the plain wrist-relative layout used before feature extraction existed
+export const LEGACY_FEATURE_SCHEMA: FeatureSchema = { version: 1, jointAngles: false, tipDistances: false };
+export const DEFAULT_FEATURE_SCHEMA: FeatureSchema = { version: FEATURE_SCHEMA_VERSION, jointAngles: true, tipDistances: true };
+
+const POINT_COUNT = 21;
+const HAND_LENGTH = POINT_COUNT * 3;
+// Wrist followed by the four joints of each finger, thumb first
+const FINGER_CHAINS = [[0, 1, 2, 3, 4], [0, 5, 6, 7, 8], [0, 9, 10, 11, 12], [0, 13, 14, 15, 16], [0, 17, 18, 19, 20]];
+const FINGERTIPS = [4, 8, 12, 16, 20];
+const ANGLE_COUNT = FINGER_CHAINS.length * 3;
+const TIP_DISTANCE_COUNT = (FINGERTIPS.length * (FINGERTIPS.length - 1)) / 2;
+
+export const sameFeatureSchema = (a: FeatureSchema, b: FeatureSchema) =>
+  a.version === b.version && a.jointAngles === b.jointAngles && a.tipDistances === b.tipDistances;
+
+// Length of the dominant-hand part of a vector (two-handed vectors add HAND_LENGTH)
+export const handFeatureLength = (schema: FeatureSchema) =>
+  schema.version === 1
+    ? HAND_LENGTH
+    : HAND_LENGTH + (schema.jointAngles ? ANGLE_COUNT : 0) + (schema.tipDistances ? TIP_DISTANCE_COUNT : 0);
+
+// --- Vector Math ---
+
+type Vec3 = [number, number, number];
+
+const sub = (a: Landmark, b: Landmark): Vec3 => [a.x - b.x, a.y - b.y, a.z - b.z];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+const scaleVec = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+
+interface PalmFrame { origin: Landmark; scale: number; axes: [Vec3, Vec3, Vec3]; }
+
+const palmFrame = (landmarks: Landmark[]): PalmFrame => {
+  const origin = landmarks[0];
+  const up = sub(landmarks[9], origin);
+  const length = norm(up);
+  // Degenerate frame (all points on top of each other): leave it unrotated and unscaled
+  if (length < 1e-6) return { origin, scale: 1, axes: [[1, 0, 0], [0, 1, 0], [0, 0, 1]] };
+
+  const yAxis = scaleVec(up, 1 / length);
+  // Across the knuckles, made perpendicular to yAxis
+  const across = sub(landmarks[5], landmarks[17]);
+  const acrossOnY = scaleVec(yAxis, dot(across, yAxis));
+  const xRaw: Vec3 = [across[0] - acrossOnY[0], across[1] - acrossOnY[1], across[2] - acrossOnY[2]];
+  const xLength = norm(xRaw);
+  const xAxis: Vec3 = xLength > 1e-6 ? scaleVec(xRaw, 1 / xLength) : [1, 0, 0];
+  return { origin, scale: length, axes: [xAxis, yAxis, cross(xAxis, yAxis)] };
+};
+
+const toPalmFrame = (landmarks: Landmark[], frame: PalmFrame): Landmark[] =>
+  landmarks.map(p => {
+    const d = sub(p, frame.origin);
+    const [x, y, z] = frame.axes.map(axis => dot(d, axis) / frame.scale);
+    return { x, y, z };
+  });
+
+// Bend at each finger joint, 0 (folded back) .. 1 (straight)
+const jointAngles = (points: Landmark[]) =>
+  FINGER_CHAINS.flatMap(chain =>
+    [1, 2, 3].map(i => {
+      const a = sub(points[chain[i - 1]], points[chain[i]]);
+      const b = sub(points[chain[i + 1]], points[chain[i]]);
+      const denominator = norm(a) * norm(b);
+      if (denominator < 1e-9) return 1;
+      return Math.acos(Math.max(-1, Math.min(1, dot(a, b) / denominator))) / Math.PI;
+    })
+  );
+
+// Points are already in palm units, so these are too
+const tipDistances = (points: Landmark[]) =>
+  FINGERTIPS.flatMap((tip, i) => FINGERTIPS.slice(i + 1).map(other => norm(sub(points[tip], points[other]))));
+
+// --- Extraction ---
+
+export const toFeatureVector = (landmarks: Landmark[], context?: RecognitionContext, schema = DEFAULT_FEATURE_SCHEMA): number[] => {
+  const hands = toCanonicalHands(landmarks, context?.otherHand, context?.handedness);
+  const otherHand = hands.otherHand && hands.otherHand.length > 0 ? hands.otherHand : null;
+
+  if (schema.version === 1) {
+    return otherHand ? toTwoHandVector(hands.landmarks, otherHand) : toWristRelativeVector(hands.landmarks);
+  }
+
+  const frame = palmFrame(hands.landmarks);
+  const points = toPalmFrame(hands.landmarks, frame);
+  const vector = points.flatMap(p => [p.x, p.y, p.z]);
+  if (schema.jointAngles) vector.push(...jointAngles(points));
+  if (schema.tipDistances) vector.push(...tipDistances(points));
+  if (otherHand) vector.push(...toPalmFrame(otherHand, frame).flatMap(p => [p.x, p.y, p.z]));
+  return vector;
+};
+
+// --- Re-deriving Stored Vectors ---
+// Every schema starts with the 21 (already canonical) points, and extraction doesn't care
+// where the hand sits or how big it is, so older vectors can be rebuilt in a newer schema.
+// Returns null when the vector doesn't match the layout it claims to have.
+
+const toPoints = (values: number[]): Landmark[] =>
+  Array.from({ length: POINT_COUNT }, (_, i) => ({ x: values[i * 3], y: values[i * 3 + 1], z: values[i * 3 + 2] }));
+
+export const rederiveFeatureVector = (vector: number[], from: FeatureSchema, to: FeatureSchema): number[] | null => {
+  const handLength = handFeatureLength(from);
+  if (vector.length !== handLength && vector.length !== handLength + HAND_LENGTH) return null;
+  if (!vector.every(Number.isFinite)) return null;
+  if (sameFeatureSchema(from, to)) return vector;
+
+  const landmarks = toPoints(vector.slice(0, HAND_LENGTH));
+  const otherHand = vector.length > handLength ? toPoints(vector.slice(handLength)) : null;
+  // Stored vectors are already in the right-hand frame; don't let the fallback guess mirror them
+  return toFeatureVector(landmarks, { handedness: { label: "Right", score: 1 }, otherHand }, to);
+};
@@ -0,0 +1,41 @@
+import type { Handedness, Landmark, RecognitionContext, RecognitionResult, Recognizer } from "./types";
+import { type RuleSet, evaluateRules, parseRuleSet, ruleSetLabels } from "./rules";
+import alphabet from "./alphabet.json";
+
+// --- Geometric Alphabet ---
+// The built-in hand-shape rules (see rules.ts for the schema). Validated on load so a bad
+// edit to alphabet.json shows up at startup rather than as a letter that never fires.
+export const ALPHABET_RULES: RuleSet = parseRuleSet(alphabet);
+
+// Every label the rules can produce (the built-in alphabet)
+export const GEOMETRIC_LABELS = ruleSetLabels(ALPHABET_RULES);
+
+// Runners-up less likely than this (0-100) aren't worth reporting
+const MIN_ALTERNATIVE_CONFIDENCE = 5;
+
+// The most likely label with its probability as confidence, unless it's more likely that no
+// rule matches at all. `thresholds` overrides the rule set's (e.g. a signer's calibration).
+export const recognizeGeometric = (
+  input: Landmark[],
+  handedness?: Handedness | null,
+  rules = ALPHABET_RULES,
+  thresholds: Record<string, number> = {}
+): RecognitionResult | null => {
+  const { candidates, unmatched } = evaluateRules(input, rules, handedness, thresholds);
+  const [best, ...rest] = candidates;
+  if (!best || best.score <= unmatched) return null;
+  return {
+    label: best.label,
+    confidence: best.score * 100,
+    alternatives: rest
+      .map(c => ({ label: c.label, confidence: c.score * 100 }))
+      .filter(c => c.confidence >= MIN_ALTERNATIVE_CONFIDENCE)
+  };
+};
+
+export const recognizeGeometricGesture = (input: Landmark[], handedness?: Handedness | null, rules = ALPHABET_RULES): string | null =>
+  recognizeGeometric(input, handedness, rules)?.label ?? null;
+
+export const createGeometricRecognizer = (rules = ALPHABET_RULES, thresholds: Record<string, number> = {}): Recognizer => ({
+  recognize: (landmarks: Landmark[], context?: RecognitionContext) => recognizeGeometric(landmarks, context?.handedness, rules, thresholds)
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import type { Handedness } from "./types";
+import { mirrorLandmarks, resolveHandLabel, toCanonicalHand } from "./geometry";
+import { createBaselineDataset } from "./baseline";
+import { toFeatureVector } from "./features";
+
+// Baseline samples are right hands with the palm to the camera, labelled the way the
+// landmarker labels them
+const samples = createBaselineDataset({ samplesPerClass: 1 });
+const right: Handedness = { label: "Right", score: 1 };
+const left: Handedness = { label: "Left", score: 1 };
+
+describe("canonical hand frame", () => {
+  it("guesses the same hand the landmarker labels", () => {
+    samples.forEach(({ landmarks = [] }) => {
+      expect(resolveHandLabel(landmarks)).toBe("Right");
+      expect(resolveHandLabel(mirrorLandmarks(landmarks))).toBe("Left");
+    });
+  });
+
+  it("canonicalises a labelled and an unlabelled hand to the same vector", () => {
+    samples.forEach(({ label, landmarks = [] }) => {
+      const mirrored = mirrorLandmarks(landmarks);
+      expect(toCanonicalHand(landmarks, null), label).toEqual(toCanonicalHand(landmarks, right));
+      expect(toCanonicalHand(mirrored, null), label).toEqual(toCanonicalHand(mirrored, left));
+      expect(toFeatureVector(landmarks, { handedness: null }), label).toEqual(toFeatureVector(landmarks, { handedness: right }));
+      expect(toFeatureVector(mirrored, { handedness: null }), label).toEqual(toFeatureVector(mirrored, { handedness: left }));
+    });
+  });
+
+  it("gives a left hand the vector of the matching right hand", () => {
+    samples.forEach(({ label, landmarks = [] }) => {
+      const expected = toFeatureVector(landmarks, { handedness: right });
+      // Mirroring twice (1 - (1 - x)) can move the last bit, so compare to within rounding
+      toFeatureVector(mirrorLandmarks(landmarks), { handedness: left }).forEach((v, i) => expect(v, label).toBeCloseTo(expected[i], 9));
+    });
+  });
+});
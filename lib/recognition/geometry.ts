@@ -0,0 +1,92 @@
+import type { HandLabel, Handedness, Landmark } from "./types";
+
+// --- Advanced Math Helpers ---
+// Distances are in image units, or in palm lengths when given the palm scale
+export const dist = (p1: Landmark, p2: Landmark, scale = 1.0) => {
+  const d = Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+  return d / scale;
+};
+
+export type FingerName = "Index" | "Middle" | "Ring" | "Pinky";
+
+// How far a finger reaches out: tip -> wrist over PIP -> wrist (about 1 curled, 1.5+ straight)
+export const getFingerExtension = (landmarks: Landmark[], fingerName: FingerName) => {
+  const fingerMap: Record<FingerName, number> = {
+    "Index": 1, "Middle": 2, "Ring": 3, "Pinky": 4,
+  };
+  const idx = fingerMap[fingerName];
+  const tip = landmarks[idx * 4 + 4];
+  const pip = landmarks[idx * 4 + 2];
+  const wrist = landmarks[0];
+  return dist(tip, wrist) / Math.max(dist(pip, wrist), 1e-6);
+};
+
+// Extended if Tip is further from wrist than PIP (a ratio, so no palm scale is needed)
+export const getFingerState = (landmarks: Landmark[], fingerName: FingerName, extendedRatio = 1.2) =>
+  getFingerExtension(landmarks, fingerName) > extendedRatio;
+
+// The thumb is out when its tip is far from the palm (away) and the thumb is straight
+export const getThumbExtension = (landmarks: Landmark[]) => {
+  const thumbTip = landmarks[4];
+  const thumbIP = landmarks[3];
+  const thumbMCP = landmarks[2];
+  const pinkyMCP = landmarks[17];
+  return {
+    away: dist(thumbTip, pinkyMCP) / Math.max(dist(thumbMCP, pinkyMCP), 1e-6),
+    straight: dist(thumbTip, thumbMCP) / Math.max(dist(thumbIP, thumbMCP), 1e-6)
+  };
+};
+
+export const isThumbExtended = (landmarks: Landmark[], awayRatio = 1.3, straightRatio = 1.0) => {
+  const { away, straight } = getThumbExtension(landmarks);
+  return away > awayRatio && straight > straightRatio;
+};
+
+// Reference Scale (Palm Size: Wrist to Middle MCP), guarded against degenerate frames
+export const getPalmScale = (landmarks: Landmark[]) => {
+  const palmSize = dist(landmarks[0], landmarks[9], 1.0);
+  return palmSize > 0.01 ? palmSize : 0.1;
+};
+
+// --- Canonical Hand Frame ---
+// The one handedness convention everything else follows. Landmarks are in unmirrored camera
+// images (the video is only mirrored on screen), and "Right" / "Left" is the signer's
+// physical hand (see detectHands, which corrects MediaPipe's selfie labels). Rules, motion
+// paths and stored vectors assume a RIGHT hand as the camera sees it: with the palm to the
+// camera the thumb is at larger x than the pinky, and the signer's right is towards smaller
+// x. Left hands are mirrored into that frame so left-handed signers get the same rules and
+// can share datasets with right-handed ones.
+
+export const mirrorLandmarks = (landmarks: Landmark[]) => landmarks.map(({ x, y, z }) => ({ x: 1 - x, y, z }));
+
+// The landmarker's label when there is one; otherwise (e.g. old recordings) fall back to
+// the palm-facing-camera guess, which is only right while the palm isn't rotated.
+export const resolveHandLabel = (landmarks: Landmark[], handedness?: Handedness | null): HandLabel =>
+  handedness?.label ?? (landmarks[5].x > landmarks[17].x ? "Right" : "Left");
+
+export const toCanonicalHand = (landmarks: Landmark[], handedness?: Handedness | null) =>
+  resolveHandLabel(landmarks, handedness) === "Left" ? mirrorLandmarks(landmarks) : landmarks;
+
+// Two-handed signs mirror the whole scene, keeping the hands' relative placement intact
+export const toCanonicalHands = (landmarks: Landmark[], otherHand: Landmark[] | null | undefined, handedness?: Handedness | null) => {
+  if (resolveHandLabel(landmarks, handedness) === "Right") return { landmarks, otherHand: otherHand ?? null };
+  return { landmarks: mirrorLandmarks(landmarks), otherHand: otherHand ? mirrorLandmarks(otherHand) : null };
+};
+
+// Wrist-relative flat vector (feature schema v1)
+export const toWristRelativeVector = (landmarks: Landmark[]) => {
+  const wrist = landmarks[0];
+  return landmarks.flatMap(p => [
+    p.x - wrist.x, p.y - wrist.y, p.z - wrist.z
+  ]);
+};
+
+// Two-hand vector: the dominant hand as above, followed by the other hand relative to the
+// SAME wrist, so where the hands are relative to each other is part of the sign.
+export const toTwoHandVector = (landmarks: Landmark[], otherHand: Landmark[]) => {
+  const wrist = landmarks[0];
+  return [
+    ...toWristRelativeVector(landmarks),
+    ...otherHand.flatMap(p => [p.x - wrist.x, p.y - wrist.y, p.z - wrist.z])
+  ];
+};
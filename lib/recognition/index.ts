@@ -0,0 +1,28 @@
+export * from "./types";
+export * from "./geometry";
+export * from "./rules";
+export * from "./geometric";
+export * from "./calibration";
+export * from "./distance";
+export * from "./knn";
+export * from "./kdtree";
+export * from "./centroid";
+export * from "./mlp";
+export * from "./classifier";
+export * from "./rejection";
+export * from "./ensemble";
+export * from "./stabilizer";
+export * from "./session";
+export * from "./evaluation";
+export * from "./smoothing";
+export * from "./features";
+export * from "./dataset";
+export * from "./trajectory";
+export * from "./body";
+export * from "./vocabulary";
+export * from "./transition";
+export * from "./capture";
+export * from "./augmentation";
+export * from "./random";
+export * from "./baseline";
+export * from "./validation";
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { TrainingSample } from "./types";
+import { createKDForest } from "./kdtree";
+import type { DistanceMetric } from "./distance";
+import { sampleDistance } from "./knn";
+import { createRandom } from "./random";
+
+const random = createRandom(11);
+const vector = (length: number) => Array.from({ length }, () => random() * 2 - 1);
+
+// One- and two-handed samples side by side, as in a real dataset
+const samples: TrainingSample[] = Array.from({ length: 300 }, (_, i) => ({ label: `s${i}`, vector: vector(i % 4 === 0 ? 16 : 8) }));
+const queries = [...Array.from({ length: 20 }, () => vector(8)), ...Array.from({ length: 20 }, () => vector(16))];
+
+// Every sample scored the way predictKNN scores them, nearest first
+const bruteForce = (query: number[], k: number, metric: DistanceMetric) =>
+  samples
+    .filter(s => s.vector.length <= query.length)
+    .map(s => ({ label: s.label, distance: sampleDistance(query, s.vector, metric) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k);
+
+describe("createKDForest", () => {
+  (["euclidean", "manhattan"] as DistanceMetric[]).forEach(metric => {
+    it(`finds the same neighbours as a full scan (${metric})`, () => {
+      const forest = createKDForest(samples);
+      [1, 5, 12].forEach(k => {
+        queries.forEach(query => expect(forest.nearest(query, k, metric)).toEqual(bruteForce(query, k, metric)));
+      });
+    });
+  });
+
+  it("finds an exact match at distance 0", () => {
+    const forest = createKDForest(samples);
+    expect(forest.nearest(samples[7].vector, 1, "euclidean")).toEqual([{ label: "s7", distance: 0 }]);
+  });
+
+  it("returns nothing from an empty dataset", () => {
+    expect(createKDForest([]).nearest(vector(8), 5, "euclidean")).toEqual([]);
+  });
+});
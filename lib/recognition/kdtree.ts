@@ -0,0 +1,94 @@
+import type { TrainingSample } from "./types";
+import { type DistanceMetric, DISTANCE_FUNCTIONS } from "./distance";
+
+// --- KD-Tree Index ---
+// Exact k-nearest-neighbour search that skips whole branches once they can't beat the
+// current k-th best. The per-axis gap is a lower bound for both euclidean and manhattan
+// distance, so pruning never drops a true neighbour. Splits use the widest axis of each
+// node's points, which holds up better than cycling axes on ~100-dimensional features.
+
+const LEAF_SIZE = 8;
+
+export interface Neighbor { label: string; distance: number; }
+
+type KDNode =
+  | { leaf: number[] }
+  | { axis: number; split: number; left: KDNode; right: KDNode };
+
+const widestAxis = (vectors: number[][], indices: number[]) => {
+  let bestAxis = 0;
+  let bestSpread = -1;
+  for (let axis = 0; axis < vectors[indices[0]].length; axis++) {
+    let min = Infinity, max = -Infinity;
+    indices.forEach(i => {
+      const v = vectors[i][axis];
+      if (v < min) min = v;
+      if (v > max) max = v;
+    });
+    if (max - min > bestSpread) {
+      bestSpread = max - min;
+      bestAxis = axis;
+    }
+  }
+  return bestAxis;
+};
+
+const build = (vectors: number[][], indices: number[]): KDNode => {
+  if (indices.length <= LEAF_SIZE) return { leaf: indices };
+  const axis = widestAxis(vectors, indices);
+  const sorted = [...indices].sort((a, b) => vectors[a][axis] - vectors[b][axis]);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    axis,
+    split: vectors[sorted[mid]][axis],
+    left: build(vectors, sorted.slice(0, mid)),
+    right: build(vectors, sorted.slice(mid))
+  };
+};
+
+export const createKDTree = (samples: TrainingSample[]) => {
+  const vectors = samples.map(s => s.vector);
+  const root = samples.length > 0 ? build(vectors, samples.map((_, i) => i)) : null;
+
+  // Fills `best` (sorted, at most k long) with the nearest samples to query
+  const nearest = (query: number[], k: number, metric: DistanceMetric, best: Neighbor[] = []) => {
+    const distance = DISTANCE_FUNCTIONS[metric];
+    const consider = (index: number) => {
+      const d = distance(query, vectors[index]);
+      if (!Number.isFinite(d) || (best.length === k && d >= best[k - 1].distance)) return;
+      let i = best.length;
+      while (i > 0 && best[i - 1].distance > d) i--;
+      best.splice(i, 0, { label: samples[index].label, distance: d });
+      if (best.length > k) best.pop();
+    };
+    const search = (node: KDNode) => {
+      if ("leaf" in node) return node.leaf.forEach(consider);
+      const gap = query[node.axis] - node.split;
+      const [near, far] = gap < 0 ? [node.left, node.right] : [node.right, node.left];
+      search(near);
+      if (best.length < k || Math.abs(gap) < best[best.length - 1].distance) search(far);
+    };
+    if (root) search(root);
+    return best;
+  };
+
+  return { nearest };
+};
+
+// One tree per vector length (one- and two-handed samples). A query searches every tree
+// whose samples are no longer than it, comparing its leading part, like the brute-force KNN.
+export const createKDForest = (samples: TrainingSample[]) => {
+  const byLength: Record<number, TrainingSample[]> = {};
+  samples.forEach(s => { (byLength[s.vector.length] ??= []).push(s); });
+  const trees = Object.entries(byLength).map(([length, group]) => ({ length: Number(length), tree: createKDTree(group) }));
+
+  const nearest = (query: number[], k: number, metric: DistanceMetric) => {
+    const best: Neighbor[] = [];
+    trees
+      .filter(t => t.length <= query.length)
+      .forEach(t => t.tree.nearest(t.length === query.length ? query : query.slice(0, t.length), k, metric, best));
+    return best;
+  };
+
+  return { nearest };
+};
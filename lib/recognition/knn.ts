@@ -0,0 +1,115 @@
+import type { Classifier, Landmark, RecognitionContext, RecognitionResult, Recognizer, ScoredLabel, TrainingSample } from "./types";
+import { DEFAULT_FEATURE_SCHEMA, toFeatureVector } from "./features";
+import { type DistanceMetric, DISTANCE_FUNCTIONS } from "./distance";
+import { type Neighbor, createKDForest } from "./kdtree";
+
+// One-handed samples only compare the dominant hand (the leading part of the input), so a
+// stray second hand in view doesn't push them away. Two-handed samples need both hands.
+export const sampleDistance = (inputVector: number[], sampleVector: number[], metric: DistanceMetric = "euclidean") => {
+  const distance = DISTANCE_FUNCTIONS[metric];
+  if (sampleVector.length < inputVector.length) {
+    return distance(inputVector.slice(0, sampleVector.length), sampleVector);
+  }
+  return distance(inputVector, sampleVector);
+};
+
+// --- KNN Logic ---
+export const K = 5;
+
+export type KNNIndex = "brute" | "kdtree";
+
+export interface KNNOptions {
+  k: number;
+  metric: DistanceMetric;
+  index: KNNIndex; // KD-tree only speeds up euclidean / manhattan; cosine always scans
+}
+
+export const DEFAULT_KNN_OPTIONS: KNNOptions = { k: K, metric: "euclidean", index: "brute" };
+
+// Inverse-distance weighted vote. Ranked by vote weight; the winner is first, the rest are the runners-up
+export const voteNeighbors = (neighbors: Neighbor[]): RecognitionResult | null => {
+  const votes: Record<string, { weight: number, count: number }> = {};
+  let totalWeight = 0;
+  neighbors.forEach(n => {
+    const weight = 1 / (n.distance + 0.0001);
+    if (!votes[n.label]) votes[n.label] = { weight: 0, count: 0 };
+    votes[n.label].weight += weight;
+    votes[n.label].count += 1;
+    totalWeight += weight;
+  });
+  const ranked: ScoredLabel[] = Object.keys(votes)
+    .sort((a, b) => votes[b].weight - votes[a].weight)
+    .map(label => ({
+      label,
+      confidence: totalWeight > 0 ? Math.min((votes[label].weight / totalWeight) * 100, 100) : 0
+    }));
+  if (ranked.length === 0) return null;
+  const [winner, ...alternatives] = ranked;
+  return { ...winner, alternatives };
+};
+
+// Keeps the k smallest distances without sorting the whole dataset
+const insertNeighbor = (best: Neighbor[], candidate: Neighbor, k: number) => {
+  if (best.length === k && candidate.distance >= best[k - 1].distance) return;
+  let i = best.length;
+  while (i > 0 && best[i - 1].distance > candidate.distance) i--;
+  best.splice(i, 0, candidate);
+  if (best.length > k) best.pop();
+};
+
+export const predictKNN = (inputVector: number[], trainingData: TrainingSample[], options: Partial<KNNOptions> = {}): RecognitionResult | null => {
+  const { k, metric } = { ...DEFAULT_KNN_OPTIONS, ...options };
+  if (trainingData.length === 0 || inputVector.length === 0) return null;
+  const neighbors: Neighbor[] = [];
+  trainingData.forEach(sample => {
+    const distance = sampleDistance(inputVector, sample.vector, metric);
+    if (Number.isFinite(distance)) insertNeighbor(neighbors, { label: sample.label, distance }, Math.max(1, k));
+  });
+  return voteNeighbors(neighbors);
+};
+
+export const createKNNClassifier = (trainingData: TrainingSample[], options: Partial<KNNOptions> = {}): Classifier => {
+  const settings = { ...DEFAULT_KNN_OPTIONS, ...options };
+  if (settings.index === "kdtree" && settings.metric !== "cosine") {
+    const forest = createKDForest(trainingData);
+    return {
+      predict: (vector) => vector.length === 0 ? null : voteNeighbors(forest.nearest(vector, Math.max(1, settings.k), settings.metric))
+    };
+  }
+  return { predict: (vector) => predictKNN(vector, trainingData, settings) };
+};
+
+// Cheap to build: it only closes over the dataset, so callers can create one per frame.
+// The schema must be the one the dataset's vectors were extracted with.
+export const createKNNRecognizer = (trainingData: TrainingSample[], schema = DEFAULT_FEATURE_SCHEMA): Recognizer => ({
+  recognize: (landmarks: Landmark[], context?: RecognitionContext) => {
+    if (!landmarks || landmarks.length === 0 || trainingData.length < K) return null;
+    return predictKNN(toFeatureVector(landmarks, context, schema), trainingData);
+  }
+});
+
+// --- Outliers ---
+// A sample whose K nearest neighbours (itself excluded) mostly carry other labels is
+// probably mislabelled or a bad capture. O(n^2): run on demand, not per frame.
+export interface SampleOutlier {
+  index: number; // Position in the dataset
+  label: string;
+  neighbourLabels: string[]; // Labels of its K nearest neighbours, nearest first
+}
+
+export const findOutliers = (trainingData: TrainingSample[], k = K): SampleOutlier[] => {
+  const outliers: SampleOutlier[] = [];
+  trainingData.forEach((sample, index) => {
+    const neighbours = trainingData
+      .map((other, j) => ({ label: other.label, distance: j === index ? Infinity : sampleDistance(sample.vector, other.vector) }))
+      .filter(n => Number.isFinite(n.distance))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+    if (neighbours.length === 0) return;
+    const disagreeing = neighbours.filter(n => n.label !== sample.label).length;
+    if (disagreeing > neighbours.length / 2) {
+      outliers.push({ index, label: sample.label, neighbourLabels: neighbours.map(n => n.label) });
+    }
+  });
+  return outliers;
+};
@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  type LandmarkSession, type RecordedFrame, BASELINE_LABELS, BUILTIN_MOTION_TEMPLATES, createBaselineDataset, createClassifierRecognizer,
+  createStabilizer, createTrajectoryTracker, DEFAULT_STABILIZER_OPTIONS, GEOMETRIC_LABELS, mirrorLandmarks, parseSession, recognizeGeometric, trainClassifier
+} from ".";
+
+// --- Letter Fixtures ---
+// One landmark session per letter in the gesture library (A-Z and 1-5), in the format Record
+// Session saves, so a real recording can replace any of them. They were posed with the
+// baseline hand model at the angle each letter is usually shown at and then frozen, so
+// changes to the generator don't move them. Static letters are held for a few frames; J and
+// Z draw their path and then hold.
+//
+// What that does and doesn't show: none of them is a recorded signer (`source` says
+// "hand-model"), so they don't say how well a real hand is read. The rules weren't tuned on
+// them, but the viewing angle of a few (C, O, X) was picked from ones the rules read. The
+// KNN is trained on the same hand model with different jitter, so its tests are close to
+// circular: they catch the model, features or canonical frame breaking, not how it copes
+// with real hands.
+
+const LETTERS = [..."ABCDEFGHIJKLMNOPQRSTUVWXYZ12345"];
+const MOTION_LETTERS = BUILTIN_MOTION_TEMPLATES.map(t => t.label);
+const STATIC_LETTERS = LETTERS.filter(label => !MOTION_LETTERS.includes(label));
+
+// Letters the rules don't read yet. M and N come out as E, whose rule comes first and also
+// wants the thumb low under the fingers; 1 comes out as D, since the thumb holding the
+// middle finger down sits close to its tip; and C's curled fingers look too short from the
+// side. These are expected to fail, so fixing one shows up as an unexpected pass.
+const KNOWN_RULE_GAPS = ["C", "M", "N", "1"];
+
+const FIXTURE_DIR = fileURLToPath(new URL("./__fixtures__/letters/", import.meta.url));
+
+const fixtures = new Map<string, LandmarkSession>(
+  readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith(".ndjson"))
+    .map(file => parseSession(readFileSync(FIXTURE_DIR + file, "utf8")))
+    .map(session => [session.label ?? "", session])
+);
+
+const framesOf = (label: string) => fixtures.get(label)?.frames ?? [];
+
+// The same frame as the signer's other hand would give it
+const asLeftHand = (frame: RecordedFrame): RecordedFrame => ({
+  ...frame,
+  landmarks: mirrorLandmarks(frame.landmarks),
+  handedness: frame.handedness ? { ...frame.handedness, label: "Left" } : null
+});
+
+// The label most frames agree on, as the stabilizer would settle on it
+const heldLabel = (frames: RecordedFrame[], read: (frame: RecordedFrame) => string | null | undefined) => {
+  const counts = new Map<string, number>();
+  frames.forEach(frame => {
+    const label = read(frame) ?? "none";
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "none";
+};
+
+const readGeometric = (frame: RecordedFrame) => recognizeGeometric(frame.landmarks, frame.handedness)?.label;
+
+describe("letter fixtures", () => {
+  it("cover every letter in the gesture library", () => {
+    expect([...fixtures.keys()].sort()).toEqual([...LETTERS].sort());
+  });
+});
+
+describe("recognizeGeometric", () => {
+  STATIC_LETTERS.filter(label => GEOMETRIC_LABELS.includes(label)).forEach(label => {
+    (KNOWN_RULE_GAPS.includes(label) ? it.fails : it)(`reads ${label}`, () => {
+      expect(heldLabel(framesOf(label), readGeometric)).toBe(label);
+    });
+  });
+
+  it("reads a left hand the same as a right hand", () => {
+    STATIC_LETTERS.forEach(label => {
+      framesOf(label).forEach(frame => {
+        expect(readGeometric(asLeftHand(frame)), label).toBe(readGeometric(frame));
+      });
+    });
+  });
+});
+
+describe("stabilizer", () => {
+  // The fixture's frames over and over, for as long as the stabilizer's window
+  const hold = (label: string) =>
+    Array.from({ length: DEFAULT_STABILIZER_OPTIONS.bufferSize }, (_, i) => framesOf(label)[i % framesOf(label).length]);
+
+  STATIC_LETTERS.filter(label => GEOMETRIC_LABELS.includes(label) && !KNOWN_RULE_GAPS.includes(label)).forEach(label => {
+    it(`locks in ${label} from the rules`, () => {
+      const stabilizer = createStabilizer();
+      const updates = hold(label).map(frame => {
+        const result = recognizeGeometric(frame.landmarks, frame.handedness);
+        return result ? stabilizer.push(result.label, result.confidence) : null;
+      });
+      expect(updates.at(-1)).toMatchObject({ candidate: label, accepted: true });
+    });
+  });
+});
+
+describe("KNN on the baseline alphabet", () => {
+  const knn = createClassifierRecognizer(trainClassifier(createBaselineDataset(), { kind: "knn" }));
+  const readKNN = (frame: RecordedFrame) => knn.recognize(frame.landmarks, { handedness: frame.handedness })?.label;
+
+  STATIC_LETTERS.filter(label => BASELINE_LABELS.includes(label)).forEach(label => {
+    it(`reads ${label}`, () => {
+      expect(heldLabel(framesOf(label), readKNN)).toBe(label);
+    });
+  });
+
+  // The baseline leaves these out (see baseline.ts), so without the signer's own samples
+  // they read as their twin. A test rather than a comment, so closing the gap shows up here.
+  it("can't read letters the baseline leaves out", () => {
+    const missing = STATIC_LETTERS.filter(label => !BASELINE_LABELS.includes(label));
+    expect(missing).toEqual(["H", "2"]);
+    missing.forEach(label => expect(heldLabel(framesOf(label), readKNN), label).not.toBe(label));
+  });
+
+  it("reads a left hand the same as a right hand", () => {
+    STATIC_LETTERS.forEach(label => {
+      framesOf(label).forEach(frame => {
+        expect(readKNN(asLeftHand(frame)), label).toBe(readKNN(frame));
+      });
+    });
+  });
+});
+
+describe("motion templates", () => {
+  MOTION_LETTERS.forEach(label => {
+    it(`trace ${label}`, () => {
+      const tracker = createTrajectoryTracker();
+      const emitted = framesOf(label)
+        .map(frame => tracker.push(frame.landmarks, frame.t, frame.handedness, readGeometric(frame) ?? null))
+        .filter(result => result !== null);
+      expect(emitted.map(result => result.label)).toEqual([label]);
+    });
+  });
+});
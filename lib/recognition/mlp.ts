@@ -0,0 +1,178 @@
+import type { Classifier, RecognitionResult, TrainingSample } from "./types";
+import { createRandom, gaussian } from "./random";
+
+// --- Logistic Regression / MLP ---
+// A small fully connected network trained in the browser with mini-batch SGD (momentum) on
+// softmax cross-entropy. hiddenUnits = 0 gives plain multinomial logistic regression.
+// Inputs are standardized per feature first. Training is seeded, so the same data and
+// options always give the same model. One network is trained per vector length, like the
+// KD-tree forest, and a query uses every network whose inputs are a prefix of its vector.
+
+export interface MLPOptions {
+  hiddenUnits: number; // 0 -> logistic regression
+  epochs: number;
+  learningRate: number;
+  batchSize: number;
+  seed: number;
+}
+
+export const DEFAULT_MLP_OPTIONS: MLPOptions = {
+  hiddenUnits: 32,
+  epochs: 40,
+  learningRate: 0.05,
+  batchSize: 16,
+  seed: 1
+};
+
+const MOMENTUM = 0.9;
+
+interface Layer {
+  inputs: number;
+  outputs: number;
+  weights: Float64Array; // outputs x inputs, row-major
+  bias: Float64Array;
+}
+
+const createLayer = (inputs: number, outputs: number, random: () => number): Layer => {
+  const weights = new Float64Array(inputs * outputs);
+  // He initialisation
+  const scale = Math.sqrt(2 / inputs);
+  for (let i = 0; i < weights.length; i++) weights[i] = gaussian(random) * scale;
+  return { inputs, outputs, weights, bias: new Float64Array(outputs) };
+};
+
+const softmax = (values: Float64Array) => {
+  let max = -Infinity;
+  values.forEach(v => { if (v > max) max = v; });
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    values[i] = Math.exp(values[i] - max);
+    sum += values[i];
+  }
+  for (let i = 0; i < values.length; i++) values[i] /= sum;
+  return values;
+};
+
+// Activations of every layer, input first; the last one holds the class probabilities
+const forward = (layers: Layer[], input: Float64Array) => {
+  const activations = [input];
+  layers.forEach((layer, l) => {
+    const previous = activations[l];
+    const out = new Float64Array(layer.outputs);
+    for (let o = 0; o < layer.outputs; o++) {
+      let sum = layer.bias[o];
+      const row = o * layer.inputs;
+      for (let i = 0; i < layer.inputs; i++) sum += layer.weights[row + i] * previous[i];
+      out[o] = l < layers.length - 1 ? Math.max(0, sum) : sum;
+    }
+    activations.push(l < layers.length - 1 ? out : softmax(out));
+  });
+  return activations;
+};
+
+const trainNetwork = (inputs: Float64Array[], targets: number[], classCount: number, options: MLPOptions) => {
+  const random = createRandom(options.seed);
+  const sizes = [inputs[0].length, ...(options.hiddenUnits > 0 ? [options.hiddenUnits] : []), classCount];
+  const layers = sizes.slice(1).map((outputs, l) => createLayer(sizes[l], outputs, random));
+  const velocity = layers.map(layer => ({ weights: new Float64Array(layer.weights.length), bias: new Float64Array(layer.bias.length) }));
+  const gradients = layers.map(layer => ({ weights: new Float64Array(layer.weights.length), bias: new Float64Array(layer.bias.length) }));
+  const order = inputs.map((_, i) => i);
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    // Fisher-Yates shuffle
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    for (let start = 0; start < order.length; start += options.batchSize) {
+      const batch = order.slice(start, start + options.batchSize);
+      gradients.forEach(g => { g.weights.fill(0); g.bias.fill(0); });
+
+      batch.forEach(index => {
+        const activations = forward(layers, inputs[index]);
+        // d(loss)/d(logits) for softmax + cross-entropy
+        let delta = Float64Array.from(activations[layers.length]);
+        delta[targets[index]] -= 1;
+        for (let l = layers.length - 1; l >= 0; l--) {
+          const layer = layers[l];
+          const input = activations[l];
+          const g = gradients[l];
+          for (let o = 0; o < layer.outputs; o++) {
+            g.bias[o] += delta[o];
+            const row = o * layer.inputs;
+            for (let i = 0; i < layer.inputs; i++) g.weights[row + i] += delta[o] * input[i];
+          }
+          if (l === 0) break;
+          const next = new Float64Array(layer.inputs);
+          for (let i = 0; i < layer.inputs; i++) {
+            if (input[i] <= 0) continue; // ReLU derivative
+            let sum = 0;
+            for (let o = 0; o < layer.outputs; o++) sum += layer.weights[o * layer.inputs + i] * delta[o];
+            next[i] = sum;
+          }
+          delta = next;
+        }
+      });
+
+      const step = options.learningRate / batch.length;
+      layers.forEach((layer, l) => {
+        const v = velocity[l], g = gradients[l];
+        for (let i = 0; i < layer.weights.length; i++) {
+          v.weights[i] = MOMENTUM * v.weights[i] - step * g.weights[i];
+          layer.weights[i] += v.weights[i];
+        }
+        for (let o = 0; o < layer.bias.length; o++) {
+          v.bias[o] = MOMENTUM * v.bias[o] - step * g.bias[o];
+          layer.bias[o] += v.bias[o];
+        }
+      });
+    }
+  }
+  return layers;
+};
+
+const trainModel = (samples: TrainingSample[], options: MLPOptions) => {
+  const classes = Array.from(new Set(samples.map(s => s.label)));
+  const length = samples[0].vector.length;
+  const mean = new Float64Array(length);
+  const std = new Float64Array(length);
+  samples.forEach(s => s.vector.forEach((x, i) => { mean[i] += x / samples.length; }));
+  samples.forEach(s => s.vector.forEach((x, i) => { std[i] += (x - mean[i]) ** 2 / samples.length; }));
+  // Constant features (e.g. the wrist, always at the origin) would divide by zero
+  std.forEach((v, i) => { std[i] = Math.sqrt(v) > 1e-6 ? Math.sqrt(v) : 1; });
+  const standardize = (vector: number[]) => Float64Array.from({ length }, (_, i) => (vector[i] - mean[i]) / std[i]);
+
+  // A single class needs no training: it always wins
+  const layers = classes.length > 1
+    ? trainNetwork(samples.map(s => standardize(s.vector)), samples.map(s => classes.indexOf(s.label)), classes.length, options)
+    : null;
+
+  const predict = (vector: number[]): RecognitionResult => {
+    const probabilities = layers ? forward(layers, standardize(vector))[layers.length] : Float64Array.of(1);
+    const [winner, ...alternatives] = classes
+      .map((label, i) => ({ label, confidence: probabilities[i] * 100 }))
+      .sort((a, b) => b.confidence - a.confidence);
+    return { ...winner, alternatives };
+  };
+
+  return { length, predict };
+};
+
+export const trainMLPClassifier = (trainingData: TrainingSample[], options: Partial<MLPOptions> = {}): Classifier => {
+  const settings = { ...DEFAULT_MLP_OPTIONS, ...options };
+  const byLength: Record<number, TrainingSample[]> = {};
+  trainingData.forEach(s => { (byLength[s.vector.length] ??= []).push(s); });
+  const models = Object.values(byLength).map(group => trainModel(group, settings));
+
+  const predict = (vector: number[]): RecognitionResult | null => {
+    let best: RecognitionResult | null = null;
+    models.forEach(model => {
+      if (model.length > vector.length) return;
+      const result = model.predict(vector.length === model.length ? vector : vector.slice(0, model.length));
+      if (!best || result.confidence > best.confidence) best = result;
+    });
+    return best;
+  };
+
+  return { predict };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { createBaselineDataset } from "./baseline";
+import { trainClassifier } from "./classifier";
+import { UNKNOWN_LABEL, calibrateRejection, withRejection } from "./rejection";
+
+// A signer who trained five signs, then shows the model others
+const TRAINED = ["A", "B", "L", "V", "Y"];
+const train = createBaselineDataset().filter(s => TRAINED.includes(s.label));
+const unseen = createBaselineDataset({ samplesPerClass: 5, seed: 3 });
+const [known, untrained] = [
+  unseen.filter(s => TRAINED.includes(s.label)),
+  unseen.filter(s => ["C", "E", "I", "W", "1"].includes(s.label))
+];
+
+const classifier = trainClassifier(train);
+const calibration = calibrateRejection(train);
+
+describe("withRejection", () => {
+  it("rejects hand shapes nobody trained", () => {
+    const rejecting = withRejection(classifier, calibration);
+    untrained.forEach(s => expect(rejecting.predict(s.vector)?.label, s.label).toBe(UNKNOWN_LABEL));
+  });
+
+  it("keeps new samples of trained signs", () => {
+    const rejecting = withRejection(classifier, calibration);
+    known.forEach(s => expect(rejecting.predict(s.vector)?.label).toBe(s.label));
+  });
+
+  it("keeps the nearest trained sign as the first alternative", () => {
+    const [sample] = untrained;
+    const plain = classifier.predict(sample.vector);
+    const rejected = withRejection(classifier, calibration).predict(sample.vector);
+    expect(rejected?.alternatives[0]).toEqual({ label: plain?.label, confidence: plain?.confidence });
+  });
+
+  it("names the nearest sign at strictness 0", () => {
+    const lenient = withRejection(classifier, calibration, 0);
+    untrained.forEach(s => expect(lenient.predict(s.vector)?.label).toBe(classifier.predict(s.vector)?.label));
+  });
+});
@@ -0,0 +1,90 @@
+import type { Classifier, RecognitionResult, TrainingSample } from "./types";
+import { sampleDistance } from "./knn";
+
+// --- Open-Set Rejection ---
+// Every classifier names *some* trained label, even for a hand shape nobody trained. This
+// checks the winner against the training data instead: how far is the input from the
+// nearest sample of that label, compared with how far that label's samples usually are
+// from each other? Too far and the frame is reported as UNKNOWN_LABEL.
+//
+// Per class, the calibrated radius is the `percentile` of leave-one-out nearest-neighbour
+// distances within the class (euclidean, same prefix rule as the KNN). Strictness scales it:
+//   0   -> rejection off
+//   0.5 -> 2x the radius (default)
+//   1   -> 1x the radius (also rejects the loosest few percent of training-like frames)
+
+export const UNKNOWN_LABEL = "unknown";
+
+export interface RejectionOptions {
+  percentile: number; // 0-1
+  minClassSamples: number; // Smaller classes borrow the threshold pooled over all classes
+}
+
+export const DEFAULT_REJECTION_OPTIONS: RejectionOptions = { percentile: 0.95, minClassSamples: 3 };
+
+export const DEFAULT_STRICTNESS = 0.5;
+
+const quantile = (values: number[], q: number) => {
+  if (values.length === 0) return Infinity;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+export const calibrateRejection = (trainingData: TrainingSample[], options: Partial<RejectionOptions> = {}) => {
+  const settings = { ...DEFAULT_REJECTION_OPTIONS, ...options };
+  const byLabel: Record<string, TrainingSample[]> = {};
+  trainingData.forEach(s => { (byLabel[s.label] ??= []).push(s); });
+
+  const nearestWithin = (vector: number[], samples: TrainingSample[], skip?: TrainingSample) => {
+    let nearest = Infinity;
+    samples.forEach(s => {
+      if (s === skip) return;
+      const d = sampleDistance(vector, s.vector);
+      if (d < nearest) nearest = d;
+    });
+    return nearest;
+  };
+
+  const spreads: Record<string, number[]> = {};
+  Object.entries(byLabel).forEach(([label, samples]) => {
+    spreads[label] = samples.map(s => nearestWithin(s.vector, samples, s)).filter(Number.isFinite);
+  });
+  const pooled = quantile(Object.values(spreads).flat(), settings.percentile);
+  // Near-duplicate captures can calibrate a class to ~0; don't let it be tighter than half the typical spread
+  const floor = quantile(Object.values(spreads).flat(), 0.5) * 0.5;
+
+  const radii: Record<string, number> = {};
+  Object.entries(spreads).forEach(([label, distances]) => {
+    const own = distances.length >= settings.minClassSamples ? quantile(distances, settings.percentile) : pooled;
+    radii[label] = Math.max(own, Number.isFinite(floor) ? floor : 0);
+  });
+
+  // Calibrated radius of a label (Infinity when nothing could be calibrated)
+  const radiusOf = (label: string) => radii[label] ?? Infinity;
+
+  // Distance from the input to the nearest training sample of the label
+  const distanceTo = (vector: number[], label: string) => nearestWithin(vector, byLabel[label] ?? []);
+
+  // Swaps the winner for UNKNOWN_LABEL when it's too far from its own training samples.
+  // The original winner is kept as the first alternative.
+  const check = (vector: number[], result: RecognitionResult | null, strictness = DEFAULT_STRICTNESS): RecognitionResult | null => {
+    if (!result || strictness <= 0) return result;
+    const threshold = radiusOf(result.label) * (1 + 2 * (1 - Math.min(1, strictness)));
+    const distance = distanceTo(vector, result.label);
+    if (!Number.isFinite(threshold) || distance <= threshold) return result;
+    return {
+      label: UNKNOWN_LABEL,
+      confidence: Math.min(100, (1 - threshold / distance) * 100),
+      alternatives: [{ label: result.label, confidence: result.confidence }, ...result.alternatives]
+    };
+  };
+
+  return { radiusOf, distanceTo, check };
+};
+
+export type RejectionCalibration = ReturnType<typeof calibrateRejection>;
+
+// Cheap to build; wrap the cached classifier per frame with the current strictness
+export const withRejection = (classifier: Classifier, calibration: RejectionCalibration, strictness = DEFAULT_STRICTNESS): Classifier => ({
+  predict: (vector) => calibration.check(vector, classifier.predict(vector), strictness)
+});
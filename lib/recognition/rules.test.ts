@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { type HandShapeRule, parseRuleSet } from "./rules";
+import { ALPHABET_RULES } from "./geometric";
+
+// A one-rule set on the built-in thresholds, with `rule` swapped in
+const withRule = (rule: Record<string, unknown>) => ({
+  version: 1,
+  thresholds: ALPHABET_RULES.thresholds,
+  rules: [{ label: "A", fingers: { Index: "down" }, ...rule }]
+});
+
+describe("parseRuleSet", () => {
+  it("accepts the built-in alphabet", () => {
+    expect(() => parseRuleSet(ALPHABET_RULES)).not.toThrow();
+  });
+
+  it("accepts a rule that names a threshold", () => {
+    const rule: Partial<HandShapeRule> = { distances: [{ from: "thumbTip", to: "indexTip", max: "fCircle" }] };
+    expect(parseRuleSet(withRule(rule)).rules[0]).toMatchObject(rule);
+  });
+
+  it("rejects an unknown finger", () => {
+    expect(() => parseRuleSet(withRule({ fingers: { Thumb: "extended" } }))).toThrow('Rule 0 (A) has unknown finger "Thumb"');
+  });
+
+  it("rejects an unknown finger state", () => {
+    expect(() => parseRuleSet(withRule({ fingers: { Index: "bent" } }))).toThrow('unknown state "bent" for Index');
+  });
+
+  it("rejects an unknown threshold name", () => {
+    const rule = { distances: [{ from: "thumbTip", to: "indexTip", max: "fCirlce" }] };
+    expect(() => parseRuleSet(withRule(rule))).toThrow('Rule 0 (A) uses unknown threshold "fCirlce"');
+  });
+
+  it("rejects an unknown point", () => {
+    const rule = { positions: [{ point: "thumbNail", axis: "x", lessThan: "indexMCP" }] };
+    expect(() => parseRuleSet(withRule(rule))).toThrow('uses unknown point "thumbNail"');
+  });
+
+  it("rejects a comparison with nothing to compare", () => {
+    expect(() => parseRuleSet(withRule({ distances: [{ from: "thumbTip", to: "indexTip" }] }))).toThrow("neither min nor max");
+    expect(() => parseRuleSet(withRule({ positions: [{ point: "thumbTip", axis: "x" }] }))).toThrow("nothing to compare to");
+  });
+
+  it("rejects a bad comparator", () => {
+    const rule = { positions: [{ point: "thumbTip", axis: "z", lessThan: "indexMCP" }] };
+    expect(() => parseRuleSet(withRule(rule))).toThrow('unknown axis "z"');
+  });
+
+  it("rejects an unknown orientation", () => {
+    expect(() => parseRuleSet(withRule({ orientation: "left" }))).toThrow('unknown orientation "left"');
+  });
+
+  it("rejects a missing state threshold", () => {
+    const thresholds = Object.fromEntries(Object.entries(ALPHABET_RULES.thresholds).filter(([name]) => name !== "margin"));
+    expect(() => parseRuleSet({ ...withRule({}), thresholds })).toThrow('missing the "margin" threshold');
+  });
+});
@@ -0,0 +1,219 @@
+import type { Handedness, Landmark } from "./types";
+import { type FingerName, dist, getFingerExtension, getPalmScale, getThumbExtension, toCanonicalHand } from "./geometry";
+
+// --- Hand-Shape Rules ---
+// The geometric alphabet is data (alphabet.json), not code. Each rule describes a hand shape
+// the way a signing dictionary would; a rule matches when all of its conditions hold:
+//   fingers     -> per finger: "extended", "curled", "hooked" or "down" (curled or hooked)
+//   thumb       -> "extended" (out from the palm) or "tucked"
+//   orientation -> where the fingers point in the image: "up", "down" or "sideways"
+//   distances   -> between two named points, in palm lengths (tip contacts are a `max`)
+//   positions   -> one point left/right of (x) or above/below (y) another
+// Points and positions are in the canonical right-hand frame (see geometry.ts: x grows
+// towards the thumb, y grows downwards). Numbers in a rule are either literals or names
+// from the rule set's `thresholds` table, so the alphabet can be tuned by editing the JSON
+// alone.
+//
+// Rules are tried in order (see Evaluation below), so a specific shape (e.g. K, or H, which
+// is U held sideways) must come before the general one it refines (V, U).
+
+export type FingerState = "extended" | "curled" | "hooked" | "down";
+export type ThumbState = "extended" | "tucked";
+export type HandOrientation = "up" | "down" | "sideways";
+
+export const RULE_POINTS = {
+  wrist: 0,
+  thumbCMC: 1, thumbMCP: 2, thumbIP: 3, thumbTip: 4,
+  indexMCP: 5, indexPIP: 6, indexDIP: 7, indexTip: 8,
+  middleMCP: 9, middlePIP: 10, middleDIP: 11, middleTip: 12,
+  ringMCP: 13, ringPIP: 14, ringDIP: 15, ringTip: 16,
+  pinkyMCP: 17, pinkyPIP: 18, pinkyDIP: 19, pinkyTip: 20
+} as const;
+
+export type RulePoint = keyof typeof RULE_POINTS;
+
+// A literal number or the name of a threshold
+export type RuleValue = number | string;
+
+export interface DistanceCondition { from: RulePoint; to: RulePoint; min?: RuleValue; max?: RuleValue; }
+export interface PositionCondition { point: RulePoint; axis: "x" | "y"; lessThan?: RulePoint; greaterThan?: RulePoint; }
+
+export interface HandShapeRule {
+  label: string;
+  note?: string;
+  fingers?: Partial<Record<FingerName, FingerState>>;
+  thumb?: ThumbState;
+  orientation?: HandOrientation;
+  distances?: DistanceCondition[];
+  positions?: PositionCondition[];
+}
+
+// Thresholds every rule set must define; they decide the finger and thumb states and how
+// sharp every comparison is
+export interface StateThresholds {
+  fingerExtended: number; // Tip -> wrist over PIP -> wrist above this = extended
+  thumbAway: number; // Thumb tip -> pinky knuckle over thumb MCP -> pinky knuckle
+  thumbStraight: number; // Thumb tip -> MCP over IP -> MCP
+  hookedMin: number; // Fingertip -> knuckle range (palm lengths) of a bent, not closed, finger
+  hookedMax: number;
+  margin: number; // Half-width of the soft band around every threshold (see Evaluation)
+}
+
+export interface RuleSet {
+  version: number;
+  thresholds: StateThresholds & Record<string, number>;
+  rules: HandShapeRule[];
+}
+
+export const STATE_THRESHOLD_NAMES: (keyof StateThresholds)[] = ["fingerExtended", "thumbAway", "thumbStraight", "hookedMin", "hookedMax", "margin"];
+
+// --- Validation ---
+// Rule files are edited by hand, so a typo should fail loudly with the rule that has it.
+
+const FINGER_NAMES: FingerName[] = ["Index", "Middle", "Ring", "Pinky"];
+const FINGER_STATES: FingerState[] = ["extended", "curled", "hooked", "down"];
+const THUMB_STATES: ThumbState[] = ["extended", "tucked"];
+const ORIENTATIONS: HandOrientation[] = ["up", "down", "sideways"];
+
+const isPoint = (value: unknown): value is RulePoint => typeof value === "string" && value in RULE_POINTS;
+
+export const parseRuleSet = (value: unknown): RuleSet => {
+  const set = value as RuleSet;
+  if (!set || typeof set !== "object") throw new Error("Rule set is not an object");
+  if (typeof set.version !== "number") throw new Error("Rule set has no version");
+  const thresholds = set.thresholds ?? {};
+  Object.entries(thresholds).forEach(([name, v]) => {
+    if (typeof v !== "number" || !Number.isFinite(v)) throw new Error(`Threshold "${name}" is not a number`);
+  });
+  STATE_THRESHOLD_NAMES.forEach(name => {
+    if (!(name in thresholds)) throw new Error(`Rule set is missing the "${name}" threshold`);
+  });
+  if (!Array.isArray(set.rules) || set.rules.length === 0) throw new Error("Rule set has no rules");
+
+  set.rules.forEach((rule, index) => {
+    const where = `Rule ${index} (${rule?.label ?? "no label"})`;
+    if (!rule || typeof rule.label !== "string" || !rule.label) throw new Error(`${where} has no label`);
+    const checkValue = (v: RuleValue | undefined) => {
+      if (v === undefined || typeof v === "number") return;
+      if (typeof v !== "string" || !(v in thresholds)) throw new Error(`${where} uses unknown threshold "${v}"`);
+    };
+    const checkPoint = (p: unknown) => {
+      if (!isPoint(p)) throw new Error(`${where} uses unknown point "${p}"`);
+    };
+    Object.entries(rule.fingers ?? {}).forEach(([finger, state]) => {
+      if (!FINGER_NAMES.includes(finger as FingerName)) throw new Error(`${where} has unknown finger "${finger}"`);
+      if (!FINGER_STATES.includes(state)) throw new Error(`${where} has unknown state "${state}" for ${finger}`);
+    });
+    if (rule.thumb !== undefined && !THUMB_STATES.includes(rule.thumb)) throw new Error(`${where} has unknown thumb state "${rule.thumb}"`);
+    if (rule.orientation !== undefined && !ORIENTATIONS.includes(rule.orientation)) {
+      throw new Error(`${where} has unknown orientation "${rule.orientation}"`);
+    }
+    (rule.distances ?? []).forEach(d => {
+      checkPoint(d.from);
+      checkPoint(d.to);
+      if (d.min === undefined && d.max === undefined) throw new Error(`${where} has a distance with neither min nor max`);
+      checkValue(d.min);
+      checkValue(d.max);
+    });
+    (rule.positions ?? []).forEach(p => {
+      checkPoint(p.point);
+      if (p.axis !== "x" && p.axis !== "y") throw new Error(`${where} has unknown axis "${p.axis}"`);
+      if (p.lessThan === undefined && p.greaterThan === undefined) throw new Error(`${where} has a position with nothing to compare to`);
+      if (p.lessThan !== undefined) checkPoint(p.lessThan);
+      if (p.greaterThan !== undefined) checkPoint(p.greaterThan);
+    });
+  });
+  return set;
+};
+
+// --- Evaluation ---
+// Conditions are soft: each scores 0-1, 0.5 exactly at its threshold and 1 (or 0) once the
+// measurement is `margin` past it either way. A rule's score is the product of its
+// conditions, read as the chance it matches. The rules are a decision list, so a label's
+// probability is the chance its rule matches while no rule above it does; whatever is left
+// over is the chance that nothing matches.
+
+export interface RuleCandidate {
+  label: string;
+  score: number; // 0-1, probability the rule list picks this label
+}
+
+export interface RuleEvaluation {
+  candidates: RuleCandidate[]; // Best first
+  unmatched: number; // 0-1, probability no rule matches
+}
+
+const soft = (margin: number, width: number) => Math.min(1, Math.max(0, 0.5 + margin / (2 * width)));
+
+// Measured once per frame and shared by every rule
+const measureHand = (input: Landmark[], handedness: Handedness | null | undefined, thresholds: RuleSet["thresholds"]) => {
+  const landmarks = toCanonicalHand(input, handedness);
+  const scale = getPalmScale(landmarks);
+  const width = thresholds.margin;
+  const fingers = {} as Record<FingerName, Record<FingerState, number>>;
+  FINGER_NAMES.forEach((finger, i) => {
+    const extended = soft(getFingerExtension(landmarks, finger) - thresholds.fingerExtended, width);
+    const reach = dist(landmarks[(i + 1) * 4 + 4], landmarks[(i + 1) * 4 + 1], scale);
+    const bent = Math.min(soft(reach - thresholds.hookedMin, width), soft(thresholds.hookedMax - reach, width));
+    fingers[finger] = { extended, hooked: (1 - extended) * bent, curled: (1 - extended) * (1 - bent), down: 1 - extended };
+  });
+  const { away, straight } = getThumbExtension(landmarks);
+  const thumbOut = Math.min(soft(away - thresholds.thumbAway, width), soft(straight - thresholds.thumbStraight, width));
+  const thumb: Record<ThumbState, number> = { extended: thumbOut, tucked: 1 - thumbOut };
+  // Mirroring doesn't change which way the fingers point, so the raw frame will do
+  const dx = (input[9].x - input[0].x) / scale;
+  const dy = (input[9].y - input[0].y) / scale;
+  const sideways = soft(Math.abs(dx) - Math.abs(dy), width);
+  const orientation: Record<HandOrientation, number> = {
+    sideways, up: (1 - sideways) * soft(-dy, width), down: (1 - sideways) * soft(dy, width)
+  };
+  return { landmarks, scale, fingers, thumb, orientation };
+};
+
+type HandMeasurements = ReturnType<typeof measureHand>;
+
+const scoreRule = (rule: HandShapeRule, hand: HandMeasurements, thresholds: RuleSet["thresholds"]): number => {
+  const value = (v: RuleValue) => typeof v === "number" ? v : thresholds[v];
+  const point = (name: RulePoint) => hand.landmarks[RULE_POINTS[name]];
+  const width = thresholds.margin;
+  let score = 1;
+
+  Object.entries(rule.fingers ?? {}).forEach(([finger, state]) => { score *= hand.fingers[finger as FingerName][state]; });
+  if (rule.thumb) score *= hand.thumb[rule.thumb];
+  if (rule.orientation) score *= hand.orientation[rule.orientation];
+  (rule.distances ?? []).forEach(d => {
+    const distance = dist(point(d.from), point(d.to), hand.scale);
+    if (d.min !== undefined) score *= soft(distance - value(d.min), width);
+    if (d.max !== undefined) score *= soft(value(d.max) - distance, width);
+  });
+  // Positions compare raw coordinates, so their margin is scaled to the palm too
+  (rule.positions ?? []).forEach(p => {
+    const v = point(p.point)[p.axis];
+    if (p.lessThan) score *= soft((point(p.lessThan)[p.axis] - v) / hand.scale, width);
+    if (p.greaterThan) score *= soft((v - point(p.greaterThan)[p.axis]) / hand.scale, width);
+  });
+  return score;
+};
+
+export const evaluateRules = (
+  input: Landmark[],
+  ruleSet: RuleSet,
+  handedness?: Handedness | null,
+  thresholdOverrides: Record<string, number> = {}
+): RuleEvaluation => {
+  if (!input || input.length < 21) return { candidates: [], unmatched: 1 };
+  const thresholds = { ...ruleSet.thresholds, ...thresholdOverrides } as RuleSet["thresholds"];
+  const hand = measureHand(input, handedness, thresholds);
+  const scores = new Map<string, number>();
+  let unmatched = 1;
+  ruleSet.rules.forEach(rule => {
+    const picked = unmatched * scoreRule(rule, hand, thresholds);
+    scores.set(rule.label, (scores.get(rule.label) ?? 0) + picked);
+    unmatched -= picked;
+  });
+  // Stable sort: equal scores keep rule order
+  const candidates = Array.from(scores, ([label, score]) => ({ label, score })).sort((a, b) => b.score - a.score);
+  return { candidates, unmatched: Math.max(0, unmatched) };
+};
+
+export const ruleSetLabels = (ruleSet: RuleSet) => Array.from(new Set(ruleSet.rules.map(r => r.label)));
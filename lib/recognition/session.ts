@@ -0,0 +1,168 @@
+import type { FrameInfo, Handedness, Landmark } from "./types";
+
+// --- Landmark Sessions (Record & Replay) ---
+// A session is the raw landmark stream exactly as the landmarker produced it, so a
+// misrecognition can be reproduced frame-for-frame without a webcam.
+//
+// Two on-disk encodings are supported:
+//   JSON   -> { version, label, startedAt, source, frames: [...] }
+//   NDJSON -> first line is the header (everything except frames), then one frame per line
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export interface RecordedHand {
+  handedness: Handedness | null;
+  landmarks: Landmark[];
+}
+
+export interface RecordedFrame extends RecordedHand {
+  t: number; // ms since the session started
+  // landmarks/handedness describe the dominant hand; landmarks is empty when no hand was visible
+  extraHands?: RecordedHand[]; // Any other hands in view
+}
+
+export interface SessionHeader {
+  version: number;
+  label: string | null; // Ground-truth sign, when the session was recorded for a single label
+  startedAt: string; // ISO timestamp
+  source: string;
+}
+
+export interface LandmarkSession extends SessionHeader {
+  frames: RecordedFrame[];
+}
+
+// --- Recorder ---
+
+export const createSessionRecorder = (label: string | null = null, source = "webcam") => {
+  let startTime: number | null = null;
+  const header: SessionHeader = {
+    version: SESSION_FORMAT_VERSION,
+    label,
+    startedAt: new Date().toISOString(),
+    source
+  };
+  const frames: RecordedFrame[] = [];
+
+  const copy = (landmarks: Landmark[]) => landmarks.map(({ x, y, z }) => ({ x, y, z }));
+
+  const record = (landmarks: Landmark[], info: FrameInfo) => {
+    if (startTime === null) startTime = info.timestamp;
+    const frame: RecordedFrame = {
+      t: Math.round(info.timestamp - startTime),
+      handedness: info.handedness,
+      landmarks: copy(landmarks)
+    };
+    if (info.otherHand) {
+      frame.extraHands = [{
+        handedness: info.otherHand.handedness,
+        landmarks: copy(info.otherHand.raw ?? info.otherHand.landmarks)
+      }];
+    }
+    frames.push(frame);
+  };
+
+  const finish = (): LandmarkSession => ({ ...header, frames: [...frames] });
+
+  return { record, finish, frameCount: () => frames.length };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
+
+// --- Player ---
+// Time-based cursor over a session: ask for the frame at an elapsed time and get the
+// most recent frame at or before it (or null if nothing new is due yet).
+
+export const createSessionPlayer = (session: LandmarkSession) => {
+  let cursor = 0;
+
+  const next = (elapsedMs: number): RecordedFrame | null => {
+    let due: RecordedFrame | null = null;
+    while (cursor < session.frames.length && session.frames[cursor].t <= elapsedMs) {
+      due = session.frames[cursor];
+      cursor++;
+    }
+    return due;
+  };
+
+  const isDone = () => cursor >= session.frames.length;
+  const rewind = () => { cursor = 0; };
+
+  return { next, isDone, rewind, duration: session.frames.at(-1)?.t ?? 0 };
+};
+
+export type SessionPlayer = ReturnType<typeof createSessionPlayer>;
+
+// --- Encoding ---
+
+export const serializeSession = (session: LandmarkSession, format: "json" | "ndjson" = "ndjson") => {
+  if (format === "json") return JSON.stringify(session);
+  const { frames, ...header } = session;
+  return [JSON.stringify(header), ...frames.map(f => JSON.stringify(f))].join("\n") + "\n";
+};
+
+const isLandmark = (value: unknown): value is Landmark => {
+  const p = value as Landmark;
+  return !!p && typeof p.x === "number" && typeof p.y === "number" && typeof p.z === "number";
+};
+
+const isHand = (value: unknown): value is RecordedHand => {
+  const h = value as RecordedHand;
+  return !!h && Array.isArray(h.landmarks) && h.landmarks.every(isLandmark);
+};
+
+const toFrame = (value: unknown, where: string): RecordedFrame => {
+  const f = value as RecordedFrame;
+  if (!f || typeof f.t !== "number" || !isHand(f)) {
+    throw new Error(`Invalid frame at ${where}`);
+  }
+  const frame: RecordedFrame = { t: f.t, handedness: f.handedness ?? null, landmarks: f.landmarks };
+  if (f.extraHands !== undefined) {
+    if (!Array.isArray(f.extraHands) || !f.extraHands.every(isHand)) throw new Error(`Invalid extraHands at ${where}`);
+    frame.extraHands = f.extraHands.map(h => ({ handedness: h.handedness ?? null, landmarks: h.landmarks }));
+  }
+  return frame;
+};
+
+const toHeader = (value: unknown): SessionHeader => {
+  const h = value as SessionHeader;
+  if (!h || typeof h.version !== "number") throw new Error("Missing session header");
+  if (h.version > SESSION_FORMAT_VERSION) throw new Error(`Unsupported session version ${h.version}`);
+  return {
+    version: h.version,
+    label: h.label ?? null,
+    startedAt: h.startedAt ?? "",
+    source: h.source ?? "unknown"
+  };
+};
+
+// Accepts either encoding; throws with a readable message on malformed input
+export const parseSession = (text: string): LandmarkSession => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Empty session file");
+
+  let whole: unknown = null;
+  try {
+    whole = JSON.parse(trimmed);
+  } catch {
+    // Not a single JSON document, fall through to NDJSON
+  }
+
+  if (whole && Array.isArray((whole as LandmarkSession).frames)) {
+    const header = toHeader(whole);
+    const frames = (whole as LandmarkSession).frames.map((f, i) => toFrame(f, `frames[${i}]`));
+    return { ...header, frames };
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const parseLine = (line: string, i: number) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+  };
+  const header = toHeader(parseLine(lines[0], 0));
+  const frames = lines.slice(1).map((line, i) => toFrame(parseLine(line, i + 1), `line ${i + 2}`));
+  return { ...header, frames };
+};
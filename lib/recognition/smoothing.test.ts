@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Landmark } from "./types";
+import { type SmoothingMethod, createLandmarkSmoother, DEFAULT_SMOOTHING_SETTINGS } from "./smoothing";
+import { createRandom, gaussian } from "./random";
+
+const FRAME_MS = 1000 / 30;
+const hand = (x: number): Landmark[] => Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0 }));
+const settings = (method: SmoothingMethod) => ({ ...DEFAULT_SMOOTHING_SETTINGS, method });
+
+// x of the first landmark for each of `frames` frames of a hand that jumps from 0 to 1
+const stepResponse = (method: SmoothingMethod, frames = 60) => {
+  const smoother = createLandmarkSmoother(settings(method));
+  smoother.smooth(hand(0), 0);
+  return Array.from({ length: frames }, (_, i) => smoother.smooth(hand(1), (i + 1) * FRAME_MS)[0].x);
+};
+
+describe("createLandmarkSmoother", () => {
+  (["ema", "oneEuro"] as SmoothingMethod[]).forEach(method => {
+    it(`${method} settles on a step without overshooting`, () => {
+      const response = stepResponse(method);
+      expect(response[0]).toBeGreaterThan(0);
+      expect(response[0]).toBeLessThan(1);
+      response.slice(1).forEach((x, i) => expect(x).toBeGreaterThanOrEqual(response[i]));
+      expect(Math.max(...response)).toBeLessThanOrEqual(1);
+      // Within 1% after a second
+      expect(response[29]).toBeGreaterThan(0.99);
+    });
+
+    it(`${method} damps jitter on a still hand`, () => {
+      const random = createRandom(3);
+      const smoother = createLandmarkSmoother(settings(method));
+      const raw = Array.from({ length: 90 }, () => 0.5 + gaussian(random) * 0.005);
+      const smoothed = raw.map((x, i) => smoother.smooth(hand(x), i * FRAME_MS)[0].x);
+      const variance = (values: number[]) => {
+        const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+        return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+      };
+      expect(variance(smoothed.slice(30))).toBeLessThan(variance(raw.slice(30)) / 2);
+    });
+  });
+
+  it("passes frames through untouched when off", () => {
+    const smoother = createLandmarkSmoother(settings("none"));
+    const frame = hand(0.3);
+    expect(smoother.smooth(frame, 0)).toBe(frame);
+  });
+
+  it("starts a new hand where it is after a reset", () => {
+    const smoother = createLandmarkSmoother();
+    smoother.smooth(hand(0), 0);
+    smoother.reset();
+    expect(smoother.smooth(hand(1), FRAME_MS)[0].x).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Landmark } from "./types";
+
+// --- Temporal Landmark Smoothing (Jitter Reduction) ---
+// Runs between detection and recognition. Each landmark coordinate gets its own filter,
+// and the whole stage is reset when the hand is lost so a new hand never "slides in"
+// from where the previous one disappeared.
+
+export type SmoothingMethod = "none" | "ema" | "oneEuro";
+
+export interface SmoothingSettings {
+  method: SmoothingMethod;
+  alpha: number; // EMA weight of the new frame (1 = no smoothing)
+  minCutoff: number; // One Euro: cutoff (Hz) when the hand is still. Lower = smoother
+  beta: number; // One Euro: how fast the cutoff rises with speed. Higher = less lag
+  dCutoff: number; // One Euro: cutoff (Hz) for the speed estimate
+}
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  method: "oneEuro",
+  alpha: 0.5,
+  minCutoff: 1.0,
+  beta: 0.5,
+  dCutoff: 1.0
+};
+
+// Exponential smoothing factor for a given cutoff frequency and frame interval
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const r = 2 * Math.PI * cutoff * dtSeconds;
+  return r / (r + 1);
+};
+
+// One Euro filter for a single scalar (Casiez et al., CHI 2012)
+const createOneEuroFilter = (minCutoff: number, beta: number, dCutoff: number) => {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTime = 0;
+
+  return (value: number, timestampMs: number) => {
+    if (prevValue === null) {
+      prevValue = value;
+      prevTime = timestampMs;
+      return value;
+    }
+    // Guard against duplicate / out-of-order timestamps (assume ~30fps)
+    const dt = timestampMs > prevTime ? (timestampMs - prevTime) / 1000 : 1 / 30;
+    prevTime = timestampMs;
+
+    const derivative = (value - prevValue) / dt;
+    const aD = smoothingFactor(dCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * prevDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const filtered = a * value + (1 - a) * prevValue;
+
+    prevValue = filtered;
+    prevDerivative = smoothedDerivative;
+    return filtered;
+  };
+};
+
+const createEmaFilter = (alpha: number) => {
+  let prevValue: number | null = null;
+  return (value: number) => {
+    prevValue = prevValue === null ? value : alpha * value + (1 - alpha) * prevValue;
+    return prevValue;
+  };
+};
+
+type ScalarFilter = (value: number, timestampMs: number) => number;
+
+export const createLandmarkSmoother = (settings: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS) => {
+  // One filter per coordinate, created lazily so any landmark count works
+  let filters: ScalarFilter[] = [];
+
+  const makeFilter = (): ScalarFilter => settings.method === "oneEuro"
+    ? createOneEuroFilter(settings.minCutoff, settings.beta, settings.dCutoff)
+    : createEmaFilter(settings.alpha);
+
+  const smooth = (landmarks: Landmark[], timestampMs: number): Landmark[] => {
+    if (settings.method === "none" || landmarks.length === 0) return landmarks;
+    if (filters.length !== landmarks.length * 3) {
+      filters = Array.from({ length: landmarks.length * 3 }, makeFilter);
+    }
+    return landmarks.map((p, i) => ({
+      x: filters[i * 3](p.x, timestampMs),
+      y: filters[i * 3 + 1](p.y, timestampMs),
+      z: filters[i * 3 + 2](p.z, timestampMs)
+    }));
+  };
+
+  const reset = () => {
+    filters = [];
+  };
+
+  return { smooth, reset };
+};
+
+export type LandmarkSmoother = ReturnType<typeof createLandmarkSmoother>;
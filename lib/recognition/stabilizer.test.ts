@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createStabilizer, DEFAULT_STABILIZER_OPTIONS } from "./stabilizer";
+
+const { bufferSize, requiredFrames, minConfidence } = DEFAULT_STABILIZER_OPTIONS;
+
+// Pushes `frames` (label, confidence) pairs and returns the last update
+const feed = (frames: [string, number][]) => {
+  const stabilizer = createStabilizer();
+  return frames.map(([label, confidence]) => stabilizer.push(label, confidence)).at(-1);
+};
+
+const steady = (label: string, confidence: number, count = bufferSize): [string, number][] =>
+  Array.from({ length: count }, () => [label, confidence]);
+
+describe("createStabilizer", () => {
+  it("locks in a steady hold once it has enough votes", () => {
+    expect(feed(steady("A", 50, requiredFrames - 1))?.accepted).toBe(false);
+    expect(feed(steady("A", 50, requiredFrames))).toMatchObject({ candidate: "A", accepted: true, progress: 100 });
+  });
+
+  it("locks in a hold of middling rule confidence", () => {
+    expect(feed(steady("S", minConfidence))?.accepted).toBe(true);
+    expect(feed(steady("S", minConfidence - 1))?.accepted).toBe(false);
+  });
+
+  it("tolerates one frame in five flickering to another letter", () => {
+    const frames = Array.from({ length: bufferSize }, (_, i): [string, number] => i % 5 === 4 ? ["E", 40] : ["S", 45]);
+    expect(feed(frames)).toMatchObject({ candidate: "S", accepted: true });
+  });
+
+  it("doesn't lock in while two letters trade places", () => {
+    const frames = Array.from({ length: bufferSize }, (_, i): [string, number] => i % 3 === 2 ? ["V", 90] : ["U", 90]);
+    expect(feed(frames)).toMatchObject({ candidate: "U", accepted: false });
+  });
+});
@@ -0,0 +1,223 @@
+import type { Handedness, Landmark, ScoredLabel } from "./types";
+import { getPalmScale, toCanonicalHand } from "./geometry";
+
+// --- Motion Signs (Trajectory Matching) ---
+// Keeps a rolling window of fingertip paths and matches them against templates in the
+// style of the $1 recognizer: resample by arc length, centre on the centroid, scale
+// uniformly, then average the point-to-point distance. Direction is not normalised away,
+// so a Z drawn backwards doesn't count.
+//
+// Paths are recorded in the canonical right-hand frame (left hands mirrored), in image
+// coordinates: y grows downwards, and the signer's right is towards smaller x.
+
+export interface PathPoint { x: number; y: number; }
+
+export interface MotionTemplate {
+  label: string;
+  fingertip: number; // Landmark index that traces the path
+  handShapes: string[]; // Static labels the hand must show while moving
+  path: PathPoint[]; // Normalised, RESAMPLE_POINTS long
+}
+
+export interface TrajectoryOptions {
+  windowMs: number; // How much history is kept and searched
+  minExtent: number; // Path bounding box, in palm lengths, below which nothing matches
+  minShapeAgreement: number; // Fraction of frames whose static label must fit the template
+  minScore: number; // 0-100
+}
+
+export const DEFAULT_TRAJECTORY_OPTIONS: TrajectoryOptions = {
+  windowMs: 1500,
+  minExtent: 0.8,
+  minShapeAgreement: 0.6,
+  minScore: 80
+};
+
+export const RESAMPLE_POINTS = 32;
+export const FINGERTIP_INDICES = [4, 8, 12, 16, 20];
+
+// --- Path Normalisation ---
+
+const pathLength = (points: PathPoint[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + Math.hypot(p.x - points[i].x, p.y - points[i].y), 0);
+
+const resample = (points: PathPoint[], n: number): PathPoint[] => {
+  const interval = pathLength(points) / (n - 1);
+  if (points.length < 2 || interval === 0) return Array.from({ length: n }, () => ({ ...points[0] }));
+
+  const source = points.map(p => ({ ...p }));
+  const result: PathPoint[] = [{ ...source[0] }];
+  let carried = 0;
+  for (let i = 1; i < source.length; i++) {
+    const prev = source[i - 1];
+    const current = source[i];
+    const segment = Math.hypot(current.x - prev.x, current.y - prev.y);
+    if (carried + segment >= interval) {
+      const t = (interval - carried) / segment;
+      const point = { x: prev.x + t * (current.x - prev.x), y: prev.y + t * (current.y - prev.y) };
+      result.push(point);
+      source.splice(i, 0, point); // The new point starts the next segment
+      carried = 0;
+    } else {
+      carried += segment;
+    }
+  }
+  // Floating point can leave us one short
+  while (result.length < n) result.push({ ...source[source.length - 1] });
+  return result.slice(0, n);
+};
+
+const boundingBox = (points: PathPoint[]) => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+};
+
+// Uniform scaling keeps straight strokes (the J's downstroke) from being blown up sideways
+export const normalizePath = (points: PathPoint[]): PathPoint[] => {
+  const resampled = resample(points, RESAMPLE_POINTS);
+  const cx = resampled.reduce((sum, p) => sum + p.x, 0) / resampled.length;
+  const cy = resampled.reduce((sum, p) => sum + p.y, 0) / resampled.length;
+  const { width, height } = boundingBox(resampled);
+  const size = Math.max(width, height) || 1;
+  return resampled.map(p => ({ x: (p.x - cx) / size, y: (p.y - cy) / size }));
+};
+
+// 100 for identical paths, 0 at the worst distance two unit-box paths can have
+export const scorePath = (normalized: PathPoint[], template: PathPoint[]) => {
+  const distance = normalized.reduce((sum, p, i) => sum + Math.hypot(p.x - template[i].x, p.y - template[i].y), 0) / normalized.length;
+  return Math.max(0, (1 - distance / (0.5 * Math.SQRT2)) * 100);
+};
+
+export const createMotionTemplate = (label: string, fingertip: number, handShapes: string[], path: PathPoint[]): MotionTemplate => ({
+  label, fingertip, handShapes, path: normalizePath(path)
+});
+
+// Drawn the way the signer writes the letter (signer's right = smaller x)
+export const BUILTIN_MOTION_TEMPLATES: MotionTemplate[] = [
+  // J: pinky down, then hooks towards the signer's left
+  createMotionTemplate("J", 20, ["I"], [
+    { x: 0, y: 0 }, { x: 0, y: 0.6 }, { x: 0.05, y: 0.8 }, { x: 0.2, y: 0.95 }, { x: 0.4, y: 1 }, { x: 0.6, y: 0.9 }
+  ]),
+  // Z: index across, diagonally back and down, across again
+  createMotionTemplate("Z", 8, ["1", "D"], [
+    { x: 1, y: 0 }, { x: 0, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }
+  ])
+];
+
+// --- Tracker ---
+
+interface TrackedFrame {
+  t: number;
+  tips: PathPoint[]; // One per FINGERTIP_INDICES entry
+  palmScale: number;
+  shape: string | null;
+}
+
+export const createTrajectoryTracker = (templates = BUILTIN_MOTION_TEMPLATES, options = DEFAULT_TRAJECTORY_OPTIONS) => {
+  let frames: TrackedFrame[] = [];
+  let activeTemplates = templates;
+  let capture: TrackedFrame[] | null = null;
+  let pending: ScoredLabel | null = null;
+
+  const tipPath = (segment: TrackedFrame[], fingertip: number) => {
+    const slot = FINGERTIP_INDICES.indexOf(fingertip);
+    return segment.map(f => f.tips[slot]);
+  };
+
+  // Bounding box of the raw path in palm lengths, so a tremor doesn't count as a stroke
+  const extentOf = (segment: TrackedFrame[], path: PathPoint[]) => {
+    const { width, height } = boundingBox(path);
+    const palm = segment.reduce((sum, f) => sum + f.palmScale, 0) / segment.length;
+    return Math.max(width, height) / palm;
+  };
+
+  const matchSegment = (segment: TrackedFrame[], template: MotionTemplate): number => {
+    if (segment.length < 5 || !FINGERTIP_INDICES.includes(template.fingertip)) return 0;
+    const fits = segment.filter(f => f.shape && (f.shape === template.label || template.handShapes.includes(f.shape))).length;
+    if (fits / segment.length < options.minShapeAgreement) return 0;
+    const path = tipPath(segment, template.fingertip);
+    if (extentOf(segment, path) < options.minExtent) return 0;
+    return scorePath(normalizePath(path), template.path);
+  };
+
+  // The sign may only fill the most recent part of the window, so try a few suffixes
+  const match = (): ScoredLabel | null => {
+    let best: ScoredLabel | null = null;
+    [0, 1 / 3, 1 / 2].forEach(skip => {
+      const segment = frames.slice(Math.floor(frames.length * skip));
+      activeTemplates.forEach(template => {
+        const confidence = matchSegment(segment, template);
+        if (confidence >= options.minScore && (!best || confidence > best.confidence)) {
+          best = { label: template.label, confidence };
+        }
+      });
+    });
+    return best;
+  };
+
+  const reset = () => {
+    frames = [];
+    pending = null;
+  };
+
+  // Feed every frame; returns a motion label once, when a full path has just been drawn
+  const push = (landmarks: Landmark[], timestamp: number, handedness: Handedness | null, shape: string | null): ScoredLabel | null => {
+    if (!landmarks || landmarks.length === 0) {
+      reset();
+      return null;
+    }
+    const hand = toCanonicalHand(landmarks, handedness);
+    const frame: TrackedFrame = {
+      t: timestamp,
+      tips: FINGERTIP_INDICES.map(i => ({ x: hand[i].x, y: hand[i].y })),
+      palmScale: getPalmScale(hand),
+      shape
+    };
+    frames.push(frame);
+    frames = frames.filter(f => timestamp - f.t <= options.windowMs);
+    capture?.push(frame);
+
+    // Hold a match while it keeps improving, so a stroke is reported once it's complete
+    // rather than as soon as its first part looks close enough
+    const result = match();
+    if (result && (!pending || result.label !== pending.label || result.confidence >= pending.confidence)) {
+      pending = result;
+      return null;
+    }
+    const emitted = pending;
+    pending = null;
+    // Start over so the same stroke isn't reported again on the next frame
+    if (emitted) frames = [];
+    return emitted;
+  };
+
+  const setTemplates = (next: MotionTemplate[]) => { activeTemplates = next; };
+
+  // --- Custom Motion Signs ---
+  // Records every frame between start and finish; the template follows whichever fingertip
+  // travelled furthest and accepts the static label seen most often along the way.
+  const startCapture = () => { capture = []; };
+
+  const finishCapture = (label: string): MotionTemplate | null => {
+    const captured = capture ?? [];
+    capture = null;
+    if (captured.length < 5) return null;
+
+    const fingertip = FINGERTIP_INDICES
+      .map(index => ({ index, length: pathLength(tipPath(captured, index)) }))
+      .sort((a, b) => b.length - a.length)[0].index;
+    const path = tipPath(captured, fingertip);
+    if (extentOf(captured, path) < options.minExtent) return null;
+
+    const shapeCounts: Record<string, number> = {};
+    captured.forEach(f => { if (f.shape) shapeCounts[f.shape] = (shapeCounts[f.shape] ?? 0) + 1; });
+    const handShapes = Object.keys(shapeCounts).sort((a, b) => shapeCounts[b] - shapeCounts[a]).slice(0, 1);
+
+    return createMotionTemplate(label, fingertip, handShapes, path);
+  };
+
+  return { push, reset, setTemplates, startCapture, finishCapture, isCapturing: () => capture !== null };
+};
+
+export type TrajectoryTracker = ReturnType<typeof createTrajectoryTracker>;
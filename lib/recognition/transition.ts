@@ -0,0 +1,64 @@
+import type { Landmark } from "./types";
+import { getPalmScale } from "./geometry";
+
+// --- Transition Gating ---
+// Tracks how fast the palm moves (in palm lengths per second, so it doesn't matter how far
+// the signer is from the camera). Frames above the threshold are "in transition": the hand
+// is travelling between two signs and its shape shouldn't be voted on.
+// Hysteresis keeps the flag from flickering around the threshold.
+
+export interface TransitionOptions {
+  enterSpeed: number; // Palm lengths / s at which a transition starts
+  exitSpeed: number; // ... and below which it ends
+  smoothing: number; // EMA factor for the speed, 0..1 (higher = more responsive)
+}
+
+export const DEFAULT_TRANSITION_OPTIONS: TransitionOptions = {
+  enterSpeed: 2.5,
+  exitSpeed: 1.5,
+  smoothing: 0.5
+};
+
+export interface TransitionState {
+  speed: number; // Smoothed palm speed, palm lengths / s
+  moving: boolean;
+  started: boolean; // True on the first frame of a transition
+}
+
+const PALM_POINTS = [0, 5, 9, 13, 17];
+
+const palmCentre = (landmarks: Landmark[]) => ({
+  x: PALM_POINTS.reduce((sum, i) => sum + landmarks[i].x, 0) / PALM_POINTS.length,
+  y: PALM_POINTS.reduce((sum, i) => sum + landmarks[i].y, 0) / PALM_POINTS.length
+});
+
+export const createTransitionGate = (options: Partial<TransitionOptions> = {}) => {
+  const { enterSpeed, exitSpeed, smoothing } = { ...DEFAULT_TRANSITION_OPTIONS, ...options };
+  let last: { x: number; y: number; t: number } | null = null;
+  let speed = 0;
+  let moving = false;
+
+  const reset = () => {
+    last = null;
+    speed = 0;
+    moving = false;
+  };
+
+  const push = (landmarks: Landmark[], timestamp: number): TransitionState => {
+    const centre = palmCentre(landmarks);
+    if (last && timestamp > last.t) {
+      const seconds = (timestamp - last.t) / 1000;
+      const instant = Math.hypot(centre.x - last.x, centre.y - last.y) / getPalmScale(landmarks) / seconds;
+      speed = speed + smoothing * (instant - speed);
+    }
+    last = { ...centre, t: timestamp };
+
+    const wasMoving = moving;
+    moving = moving ? speed > exitSpeed : speed > enterSpeed;
+    return { speed, moving, started: moving && !wasMoving };
+  };
+
+  return { push, reset };
+};
+
+export type TransitionGate = ReturnType<typeof createTransitionGate>;
@@ -0,0 +1,78 @@
+// --- Shared Recognition Types ---
+// Kept free of React / DOM types so the engine can run in Node (tests, CLI tools).
+
+export interface Landmark { x: number; y: number; z: number; }
+export interface Sample {
+  label: string;
+  landmarks: Landmark[];
+  otherHand?: Landmark[]; // Non-dominant hand, only kept for two-handed signs
+  handedness?: Handedness | null; // Signing hand as labelled by the landmarker
+  timestamp?: number; // Capture time, ms since epoch
+  augmented?: boolean; // Synthesised from a recorded sample (see augmentation.ts), not captured
+  location?: SignLocation; // Body zone at capture, when body tracking was on
+}
+export interface TrainingSample {
+  label: string;
+  vector: number[];
+  // Raw capture the vector was extracted from; missing in datasets saved before it was kept
+  landmarks?: Landmark[];
+  otherHand?: Landmark[];
+  handedness?: Handedness | null;
+  timestamp?: number;
+  augmented?: boolean;
+  location?: SignLocation;
+}
+
+// Which physical hand a detection belongs to (from the signer's point of view)
+export type HandLabel = "Left" | "Right";
+export interface Handedness { label: HandLabel; score: number; }
+
+// Body-relative location (see body.ts)
+export type SignLocation = "forehead" | "chin" | "chest" | "neutral";
+
+export interface BodyAnchors {
+  forehead: Landmark;
+  nose: Landmark;
+  chin: Landmark;
+  chest: Landmark | null; // Only with pose tracking
+  faceHeight: number; // Forehead -> chin, in image units
+}
+
+export interface TrackedHand {
+  landmarks: Landmark[];
+  handedness: Handedness | null;
+  raw?: Landmark[]; // Unsmoothed landmarks, present when a smoothing stage ran
+}
+
+// Per-frame context delivered alongside the (dominant hand's) landmarks
+export interface FrameInfo {
+  timestamp: number;
+  handedness: Handedness | null;
+  raw?: Landmark[]; // Unsmoothed landmarks, present when a smoothing stage ran
+  otherHand?: TrackedHand | null; // Second hand, when two are in view
+  ml?: RecognitionResult | null; // Custom-model prediction already computed by the detection pipeline
+  body?: BodyAnchors | null; // Face / pose anchors, when body tracking is on
+}
+
+export interface ScoredLabel { label: string; confidence: number; }
+
+// Confidence is on a 0-100 scale everywhere in the app (UI bars, thresholds).
+export interface RecognitionResult extends ScoredLabel {
+  alternatives: ScoredLabel[];
+}
+
+// Optional extras a recognizer may use beyond the dominant hand's landmarks
+export interface RecognitionContext {
+  handedness?: Handedness | null;
+  otherHand?: Landmark[] | null;
+  body?: BodyAnchors | null;
+}
+
+export interface Recognizer {
+  recognize: (landmarks: Landmark[], context?: RecognitionContext) => RecognitionResult | null;
+}
+
+// Trained model over feature vectors (see features.ts); wrapped into a Recognizer by classifier.ts
+export interface Classifier {
+  predict: (vector: number[]) => RecognitionResult | null;
+}
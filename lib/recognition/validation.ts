@@ -0,0 +1,201 @@
+import type { Classifier, TrainingSample } from "./types";
+import { type ClassifierConfig, DEFAULT_CLASSIFIER_CONFIG, trainClassifier } from "./classifier";
+import { UNKNOWN_LABEL, calibrateRejection, withRejection } from "./rejection";
+import {
+  type ClassMetrics, type ConfusionMatrix, type LabelledPrediction,
+  buildConfusionMatrix, overallAccuracy, perClassMetrics, topConfusions
+} from "./evaluation";
+
+// --- Cross-Validation (Custom Model) ---
+// Every sample is predicted by a model that never saw it (nor, ideally, its neighbours in
+// time: consecutive frames of one recording are near-duplicates and would inflate scores).
+//   kfold   -> each class is cut into `folds` contiguous blocks, one block held out at a time
+//   session -> leave-one-session-out, where a session is a burst of captures of one label
+//              with no gap longer than sessionGapMs (samples without timestamps form one)
+
+export type ValidationStrategy = "kfold" | "session";
+
+export interface ValidationOptions {
+  strategy: ValidationStrategy;
+  folds: number; // kfold only
+  sessionGapMs: number; // session only
+  minSamplesPerClass: number; // Below this a class is flagged as needing more data
+  targetRecall: number; // 0-1; classes recognised less often than this are flagged
+  classifier: ClassifierConfig; // Backend retrained on every fold
+  strictness: number; // Open-set rejection (see rejection.ts), 0 = off; rejected frames count as no prediction
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  strategy: "kfold",
+  folds: 5,
+  sessionGapMs: 5000,
+  minSamplesPerClass: 20,
+  targetRecall: 0.85,
+  classifier: DEFAULT_CLASSIFIER_CONFIG,
+  strictness: 0
+};
+
+export interface ValidationReport {
+  strategy: ValidationStrategy;
+  folds: number; // Number of held-out groups actually used
+  predictions: LabelledPrediction[]; // Same order as the samples passed in
+  matrix: ConfusionMatrix;
+  accuracy: number; // 0-1
+  metrics: ClassMetrics[];
+  suggestions: string[];
+}
+
+const groupByLabel = (samples: TrainingSample[]) => {
+  const groups: Record<string, number[]> = {};
+  samples.forEach((s, i) => { (groups[s.label] ??= []).push(i); });
+  return groups;
+};
+
+// Fold id per sample index
+const assignKFold = (samples: TrainingSample[], folds: number) => {
+  const assignment: string[] = new Array(samples.length);
+  Object.values(groupByLabel(samples)).forEach(indices => {
+    indices.forEach((sampleIndex, i) => { assignment[sampleIndex] = String(Math.floor((i * folds) / indices.length)); });
+  });
+  return assignment;
+};
+
+const assignSessions = (samples: TrainingSample[], gapMs: number) => {
+  const assignment: string[] = new Array(samples.length);
+  Object.entries(groupByLabel(samples)).forEach(([label, indices]) => {
+    const timeOf = (i: number) => samples[i].timestamp ?? 0;
+    const timed = indices.filter(i => samples[i].timestamp !== undefined).sort((a, b) => timeOf(a) - timeOf(b));
+    let session = 0;
+    timed.forEach((sampleIndex, i) => {
+      if (i > 0 && timeOf(sampleIndex) - timeOf(timed[i - 1]) > gapMs) session++;
+      assignment[sampleIndex] = `${label}#${session}`;
+    });
+    indices.filter(i => samples[i].timestamp === undefined).forEach(i => { assignment[i] = `${label}#untimed`; });
+  });
+  return assignment;
+};
+
+// Trains on one fold's training part, with rejection calibrated on the same samples
+const trainFold = (training: TrainingSample[], classifier: ClassifierConfig, strictness: number): Classifier => {
+  const trained = trainClassifier(training, classifier);
+  return strictness > 0 ? withRejection(trained, calibrateRejection(training), strictness) : trained;
+};
+
+const predictLabel = (classifier: Classifier, vector: number[]) => {
+  const label = classifier.predict(vector)?.label ?? null;
+  return label === UNKNOWN_LABEL ? null : label;
+};
+
+const suggest = (
+  report: Omit<ValidationReport, "suggestions">,
+  samples: TrainingSample[],
+  sessionsPerLabel: Record<string, number> | null,
+  options: ValidationOptions
+) => {
+  const suggestions: string[] = [];
+  report.metrics.forEach(({ label, support, recall }) => {
+    if (support < options.minSamplesPerClass) {
+      suggestions.push(`"${label}" has only ${support} samples. Record at least ${options.minSamplesPerClass}.`);
+    } else if (recall < options.targetRecall) {
+      suggestions.push(`"${label}" is recognised ${Math.round(recall * 100)}% of the time. Add more varied samples (angle, distance, lighting).`);
+    }
+    if (sessionsPerLabel && sessionsPerLabel[label] === 1) {
+      suggestions.push(`"${label}" was captured in a single session. Record it again at another time so it generalises.`);
+    }
+  });
+  topConfusions(report.matrix).forEach(({ expected, predicted, count }) => {
+    const support = report.metrics.find(m => m.label === expected)?.support ?? 0;
+    if (count >= 2 && count >= support * 0.1) {
+      suggestions.push(`"${expected}" is often read as "${predicted}" (${count}x). Record both more distinctly, or check them for mislabelled samples.`);
+    }
+  });
+  if (new Set(samples.map(s => s.label)).size < 2) {
+    suggestions.push("Train at least two classes for a meaningful evaluation.");
+  }
+  return suggestions;
+};
+
+export const crossValidate = (samples: TrainingSample[], options: Partial<ValidationOptions> = {}): ValidationReport => {
+  const settings = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+  const assignment = settings.strategy === "session"
+    ? assignSessions(samples, settings.sessionGapMs)
+    : assignKFold(samples, Math.max(2, settings.folds));
+  const foldIds = Array.from(new Set(assignment));
+
+  const predictions: LabelledPrediction[] = new Array(samples.length);
+  foldIds.forEach(fold => {
+    const classifier = trainFold(samples.filter((_, i) => assignment[i] !== fold), settings.classifier, settings.strictness);
+    samples.forEach((sample, i) => {
+      if (assignment[i] !== fold) return;
+      predictions[i] = { expected: sample.label, predicted: predictLabel(classifier, sample.vector) };
+    });
+  });
+
+  const matrix = buildConfusionMatrix(predictions);
+  const partial = {
+    strategy: settings.strategy,
+    folds: foldIds.length,
+    predictions,
+    matrix,
+    accuracy: overallAccuracy(matrix),
+    metrics: perClassMetrics(matrix)
+  };
+
+  const sessionsPerLabel: Record<string, number> = {};
+  if (settings.strategy === "session") {
+    foldIds.forEach(fold => {
+      const label = fold.slice(0, fold.lastIndexOf("#"));
+      sessionsPerLabel[label] = (sessionsPerLabel[label] ?? 0) + 1;
+    });
+  }
+
+  return {
+    ...partial,
+    suggestions: suggest(partial, samples, settings.strategy === "session" ? sessionsPerLabel : null, settings)
+  };
+};
+
+// --- Benchmark ---
+// Runs the same cross-validation for several backends so they can be compared on one
+// dataset. Timings are wall-clock totals across all folds, so only compare them side by side.
+
+export interface BenchmarkResult {
+  classifier: ClassifierConfig;
+  accuracy: number; // 0-1
+  trainMs: number; // Total training time over all folds
+  predictMs: number; // Average time per prediction
+}
+
+const now = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
+
+export const benchmarkClassifiers = (
+  samples: TrainingSample[],
+  classifiers: ClassifierConfig[],
+  options: Partial<Omit<ValidationOptions, "classifier">> = {}
+): BenchmarkResult[] => {
+  const settings = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+  const assignment = settings.strategy === "session"
+    ? assignSessions(samples, settings.sessionGapMs)
+    : assignKFold(samples, Math.max(2, settings.folds));
+  const foldIds = Array.from(new Set(assignment));
+
+  return classifiers.map(config => {
+    let trainMs = 0, predictMs = 0, correct = 0;
+    foldIds.forEach(fold => {
+      const trainStart = now();
+      const classifier = trainFold(samples.filter((_, i) => assignment[i] !== fold), config, settings.strictness);
+      trainMs += now() - trainStart;
+      const predictStart = now();
+      samples.forEach((sample, i) => {
+        if (assignment[i] === fold && predictLabel(classifier, sample.vector) === sample.label) correct++;
+      });
+      predictMs += now() - predictStart;
+    });
+    return {
+      classifier: config,
+      accuracy: samples.length > 0 ? correct / samples.length : 0,
+      trainMs,
+      predictMs: samples.length > 0 ? predictMs / samples.length : 0
+    };
+  });
+};
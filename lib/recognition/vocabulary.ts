@@ -0,0 +1,259 @@
+import type { BodyAnchors, Handedness, Landmark, ScoredLabel, SignLocation } from "./types";
+import { getPalmScale, toCanonicalHand } from "./geometry";
+import { locateHand } from "./body";
+import type { PathPoint } from "./trajectory";
+
+// --- Word Signs (Vocabulary) ---
+// Whole-word signs described the way sign dictionaries do: a hand shape, where the sign is
+// made and how the hand moves. The shape comes from the static recognizers (a label per
+// frame, like the motion templates use), the location from the body zones when body tracking
+// is on (body.ts) and from where the palm sits in the frame otherwise, and the movement is
+// classified from the palm's path over the last couple of seconds.
+//
+// Labels are glosses (upper case, words joined by hyphens), so a word stays one token in
+// the sentence.
+
+export type SignMovement =
+  | "up" | "down" | "out" | "in" // Straight stroke; "out" is towards the signing hand's side
+  | "forward" // Towards the camera (the palm grows)
+  | "circle"
+  | "nod" | "shake" // Repeated up-down / side-to-side strokes
+  | "tap" // Small repeated contact, e.g. on the chin
+  | "close"; // Fingertips snap shut onto the thumb
+
+export interface VocabularyWord {
+  label: string;
+  title: string;
+  // Static labels the hand may show while signing. Twins such as 2/V and 0/O are both listed:
+  // the baseline only predicts one of each (baseline.ts), but a signer's own samples may
+  // use the other.
+  handShapes: string[];
+  location: SignLocation; // Where the sign starts
+  movement: SignMovement;
+}
+
+export const BUILTIN_VOCABULARY: VocabularyWord[] = [
+  { label: "HELLO", title: "Hello", handShapes: ["B", "4"], location: "forehead", movement: "out" },
+  { label: "THANK-YOU", title: "Thank you", handShapes: ["B", "4"], location: "chin", movement: "forward" },
+  { label: "PLEASE", title: "Please", handShapes: ["B", "4", "5"], location: "chest", movement: "circle" },
+  { label: "SORRY", title: "Sorry", handShapes: ["A", "S"], location: "chest", movement: "circle" },
+  { label: "YES", title: "Yes", handShapes: ["S", "A"], location: "neutral", movement: "nod" },
+  { label: "NO", title: "No", handShapes: ["U", "V", "H", "K", "3", "2"], location: "neutral", movement: "close" },
+  { label: "HELP", title: "Help", handShapes: ["A", "S"], location: "chest", movement: "up" },
+  { label: "WHERE", title: "Where", handShapes: ["1", "D"], location: "neutral", movement: "shake" },
+  { label: "WATER", title: "Water", handShapes: ["W", "6"], location: "chin", movement: "tap" },
+  { label: "EAT", title: "Eat", handShapes: ["O", "E", "0"], location: "chin", movement: "tap" },
+  { label: "MOTHER", title: "Mother", handShapes: ["5"], location: "chin", movement: "tap" },
+  { label: "FATHER", title: "Father", handShapes: ["5"], location: "forehead", movement: "tap" }
+];
+
+const LOCATION_NAMES: Record<SignLocation, string> = {
+  forehead: "at the forehead", chin: "at the chin", chest: "in front of the chest", neutral: "in front of the body"
+};
+
+const MOVEMENT_NAMES: Record<SignMovement, string> = {
+  up: "moving up", down: "moving down", out: "moving out to the side", in: "moving across the body",
+  forward: "moving forward", circle: "moving in a circle", nod: "nodding up and down",
+  shake: "shaking side to side", tap: "tapping twice", close: "snapping shut onto the thumb"
+};
+
+export const describeWord = (word: VocabularyWord) =>
+  `${word.handShapes[0]} hand ${LOCATION_NAMES[word.location]}, ${MOVEMENT_NAMES[word.movement]}.`;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// --- Locations ---
+// Without body tracking: vertical bands of the frame for a signer framed from the head to
+// the waist, checked at the palm centre. "neutral" matches anywhere.
+
+const LOCATION_BANDS: Record<Exclude<SignLocation, "neutral">, [number, number]> = {
+  forehead: [0, 0.32],
+  chin: [0.25, 0.5],
+  chest: [0.45, 0.85]
+};
+
+const isAtLocation = (point: PathPoint, location: SignLocation) => {
+  if (location === "neutral") return true;
+  const [top, bottom] = LOCATION_BANDS[location];
+  return point.y >= top && point.y <= bottom;
+};
+
+// Checked over the first quarter of the segment, where the sign begins
+const startsAt = (segment: VocabularyFrame[], location: SignLocation) => {
+  if (location === "neutral") return true;
+  const start = segment.slice(0, Math.max(1, Math.floor(segment.length / 4)));
+  const tracked = start.filter(f => f.location);
+  if (tracked.length > 0) return tracked.filter(f => f.location === location).length * 2 >= tracked.length;
+  return isAtLocation({ x: mean(start.map(f => f.centre.x)), y: mean(start.map(f => f.centre.y)) }, location);
+};
+
+// --- Movement ---
+
+export interface VocabularyOptions {
+  windowMs: number;
+  minExtent: number; // Palm lengths a stroke, nod or circle must cover
+  minRepeatAmplitude: number; // Palm lengths a tap / nod must reverse by to count; taps stay under minExtent / 2
+  minForwardRatio: number; // Palm size growth that counts as moving forward
+  minShapeAgreement: number; // Fraction of frames whose static label must fit the word
+  settleMs: number; // How long the hand must stay put before a word is reported
+  maxSettleDrift: number; // Palm lengths the hand may drift while settled
+}
+
+export const DEFAULT_VOCABULARY_OPTIONS: VocabularyOptions = {
+  windowMs: 2000,
+  minExtent: 0.6,
+  minRepeatAmplitude: 0.12,
+  minForwardRatio: 1.2,
+  minShapeAgreement: 0.6,
+  settleMs: 300,
+  maxSettleDrift: 0.06
+};
+
+export interface VocabularyFrame {
+  t: number;
+  centre: PathPoint; // Palm centre, canonical frame
+  palmScale: number;
+  pinch: number; // Index and middle fingertips to the thumb tip, in palm lengths
+  shape: string | null;
+  location: SignLocation | null; // Body zone, when the body is tracked
+}
+
+// Direction changes of at least `amplitude`, so jitter doesn't count as a repeat
+const countReversals = (values: number[], amplitude: number) => {
+  let reversals = 0;
+  let direction = 0;
+  let [low, high] = [values[0], values[0]]; // Until the first stroke, either way counts
+  let extreme = values[0];
+  values.forEach(v => {
+    if (direction === 0) {
+      [low, high] = [Math.min(low, v), Math.max(high, v)];
+      if (v - low >= amplitude) direction = 1;
+      else if (high - v >= amplitude) direction = -1;
+      extreme = v;
+      return;
+    }
+    // Still going the same way: push the turning point further out
+    if (Math.sign(v - extreme) === direction) {
+      extreme = v;
+      return;
+    }
+    if (Math.abs(v - extreme) < amplitude) return;
+    reversals++;
+    direction = -direction;
+    extreme = v;
+  });
+  return reversals;
+};
+
+export const classifyMovement = (frames: VocabularyFrame[], options = DEFAULT_VOCABULARY_OPTIONS): SignMovement | null => {
+  if (frames.length < 5) return null;
+  const palm = mean(frames.map(f => f.palmScale));
+  const xs = frames.map(f => (f.centre.x - frames[0].centre.x) / palm);
+  const ys = frames.map(f => (f.centre.y - frames[0].centre.y) / palm);
+  const [width, height] = [range(xs), range(ys)];
+  const extent = Math.max(width, height);
+  const head = frames.slice(0, 3);
+  const tail = frames.slice(-3);
+
+  const pinchStart = mean(head.map(f => f.pinch));
+  if (pinchStart > 0.5 && mean(tail.map(f => f.pinch)) < pinchStart * 0.5) return "close";
+
+  const travelled = xs.slice(1).reduce((sum, x, i) => sum + Math.hypot(x - xs[i], ys[i + 1] - ys[i]), 0);
+  const gap = Math.hypot(xs[xs.length - 1], ys[ys.length - 1]);
+  if (extent >= options.minExtent && Math.min(width, height) > extent * 0.5 && travelled > extent * 2.5 && gap < extent * 0.4) {
+    return "circle";
+  }
+
+  const scales = frames.map(f => f.palmScale / palm);
+  const repeats = Math.max(
+    countReversals(xs, options.minRepeatAmplitude),
+    countReversals(ys, options.minRepeatAmplitude),
+    countReversals(scales, options.minRepeatAmplitude / 2)
+  );
+  if (repeats >= 2) {
+    if (extent < options.minExtent / 2) return "tap";
+    return height >= width ? "nod" : "shake";
+  }
+
+  if (mean(tail.map(f => f.palmScale)) / mean(head.map(f => f.palmScale)) >= options.minForwardRatio) return "forward";
+  if (extent < options.minExtent) return null;
+  const [dx, dy] = [xs[xs.length - 1], ys[ys.length - 1]];
+  if (Math.abs(dy) > Math.abs(dx)) return dy < 0 ? "up" : "down";
+  // Canonical right hand: the signer's right is towards smaller x
+  return dx < 0 ? "out" : "in";
+};
+
+// --- Tracker ---
+
+export const createVocabularyTracker = (words = BUILTIN_VOCABULARY, options = DEFAULT_VOCABULARY_OPTIONS) => {
+  let frames: VocabularyFrame[] = [];
+  let activeWords = words;
+  let pending: ScoredLabel | null = null;
+
+  const matchSegment = (segment: VocabularyFrame[], word: VocabularyWord): number => {
+    if (segment.length < 5) return 0;
+    const fits = segment.filter(f => f.shape && (f.shape === word.label || word.handShapes.includes(f.shape))).length / segment.length;
+    if (fits < options.minShapeAgreement) return 0;
+    if (!startsAt(segment, word.location)) return 0;
+    return fits * 100;
+  };
+
+  // As with motion signs, the word may only fill the most recent part of the window
+  const match = (): ScoredLabel | null => {
+    let best: ScoredLabel | null = null;
+    [0, 1 / 3, 1 / 2].forEach(skip => {
+      const segment = frames.slice(Math.floor(frames.length * skip));
+      const movement = classifyMovement(segment, options);
+      if (!movement) return;
+      activeWords.forEach(word => {
+        if (word.movement !== movement) return;
+        const confidence = matchSegment(segment, word);
+        if (confidence > 0 && (!best || confidence > best.confidence)) best = { label: word.label, confidence };
+      });
+    });
+    return best;
+  };
+
+  // The hand has stopped, so whatever matched last is the complete word
+  const isSettled = (timestamp: number) => {
+    const recent = frames.filter(f => timestamp - f.t <= options.settleMs);
+    if (recent.length < 3 || timestamp - frames[0].t < options.settleMs) return false;
+    const palm = mean(recent.map(f => f.palmScale));
+    const drift = Math.max(range(recent.map(f => f.centre.x)), range(recent.map(f => f.centre.y)), range(recent.map(f => f.palmScale)));
+    return drift / palm <= options.maxSettleDrift;
+  };
+
+  const reset = () => {
+    frames = [];
+    pending = null;
+  };
+
+  // Feed every frame; returns a word once, when the hand comes to rest after its movement
+  const push = (landmarks: Landmark[], timestamp: number, handedness: Handedness | null, shape: string | null, body: BodyAnchors | null = null): ScoredLabel | null => {
+    if (!landmarks || landmarks.length === 0) {
+      reset();
+      return null;
+    }
+    const hand = toCanonicalHand(landmarks, handedness);
+    const palmScale = getPalmScale(hand);
+    const centre = { x: (hand[0].x + hand[9].x) / 2, y: (hand[0].y + hand[9].y) / 2 };
+    const tip = (i: number) => Math.hypot(hand[i].x - hand[4].x, hand[i].y - hand[4].y) / palmScale;
+    const location = body ? locateHand(landmarks, body) : null;
+    frames.push({ t: timestamp, centre, palmScale, pinch: (tip(8) + tip(12)) / 2, shape, location });
+    frames = frames.filter(f => timestamp - f.t <= options.windowMs);
+
+    const result = match();
+    if (result) pending = result;
+    if (!pending || !isSettled(timestamp)) return null;
+    const emitted = pending;
+    reset();
+    return emitted;
+  };
+
+  const setWords = (next: VocabularyWord[]) => { activeWords = next; };
+
+  return { push, reset, setWords };
+};
+
+export type VocabularyTracker = ReturnType<typeof createVocabularyTracker>;
@@ -0,0 +1,157 @@
+// --- GAMAY Service Worker ---
+// Precaches the MediaPipe runtime, the hand model and the sign images so the app works
+// offline once it has been opened online. Bump CACHE_VERSION when cached assets change.
+// The build's hashed chunks can't be listed here; the page that registers us sends the
+// ones it has already loaded (see "message" below) and the rest are cached as they load.
+
+const CACHE_VERSION = "gamay-v2";
+const ASSET_CACHE = `${CACHE_VERSION}-assets`;
+const RUNTIME_CACHE = `${CACHE_VERSION}-runtime`;
+
+// The page registers us as /sw.js?assetBase=... so a custom asset host is cached too
+const ASSET_BASE = (new URL(self.location.href).searchParams.get("assetBase") || "/mediapipe").replace(/\/$/, "");
+
+const MEDIAPIPE_ASSETS = [
+  `${ASSET_BASE}/models/hand_landmarker.task`,
+  `${ASSET_BASE}/models/face_landmarker.task`,
+  `${ASSET_BASE}/models/pose_landmarker_lite.task`,
+  `${ASSET_BASE}/wasm/vision_wasm_internal.js`,
+  `${ASSET_BASE}/wasm/vision_wasm_internal.wasm`,
+  `${ASSET_BASE}/wasm/vision_wasm_nosimd_internal.js`,
+  `${ASSET_BASE}/wasm/vision_wasm_nosimd_internal.wasm`,
+];
+
+const GESTURE_IMAGES = [
+  "/gesture/1-removebg-preview.png",
+  "/gesture/2-removebg-preview.png",
+  "/gesture/3-removebg-preview.png",
+  "/gesture/4-removebg-preview.png",
+  "/gesture/5-removebg-preview.png",
+  "/gesture/A-removebg-preview.png",
+  "/gesture/B-removebg-preview.png",
+  "/gesture/C-removebg-preview.png",
+  "/gesture/D-removebg-preview.png",
+  "/gesture/E-removebg-preview.png",
+  "/gesture/F-removebg-preview.png",
+  "/gesture/G-removebg-preview.png",
+  "/gesture/H-removebg-preview.png",
+  "/gesture/I-removebg-preview.png",
+  "/gesture/J-removebg-preview.png",
+  "/gesture/K-removebg-preview.png",
+  "/gesture/L-removebg-preview.png",
+  "/gesture/M-removebg-preview.png",
+  "/gesture/N-removebg-preview.png",
+  "/gesture/O-removebg-preview.png",
+  "/gesture/P-removebg-preview.png",
+  "/gesture/Q-removebg-preview.png",
+  "/gesture/R-removebg-preview.png",
+  "/gesture/S-removebg-preview.png",
+  "/gesture/T-removebg-preview.png",
+  "/gesture/U-removebg-preview.png",
+  "/gesture/V-removebg-preview.png",
+  "/gesture/W-removebg-preview.png",
+  "/gesture/X-removebg-preview.png",
+  "/gesture/Y-removebg-preview.png",
+  "/gesture/z-removebg-preview.png",
+];
+
+const APP_SHELL = ["/", "/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(ASSET_CACHE);
+    // Cache individually so one missing file doesn't abort the whole install
+    await Promise.all([...APP_SHELL, ...MEDIAPIPE_ASSETS, ...GESTURE_IMAGES].map(async (url) => {
+      try {
+        await cache.add(new Request(url, { mode: url.startsWith("/") ? "same-origin" : "cors" }));
+      } catch (error) {
+        console.warn("Gamay SW: failed to precache", url, error);
+      }
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => !key.startsWith(CACHE_VERSION)).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// The first visit loads its bundles before we control the page, so none of them went
+// through the fetch handler. The page posts their URLs once we're active; only build output
+// is accepted, and anything already cached is left alone.
+const BUILD_ASSET_PREFIX = "/_next/static/";
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-build-assets" || !Array.isArray(event.data.urls)) return;
+  event.waitUntil((async () => {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await Promise.all(event.data.urls.map(async (href) => {
+      const url = new URL(href, self.location.origin);
+      if (url.origin !== self.location.origin || !url.pathname.startsWith(BUILD_ASSET_PREFIX)) return;
+      if (await caches.match(url.href)) return;
+      try {
+        await cache.add(url.href);
+      } catch (error) {
+        console.warn("Gamay SW: failed to cache", url.href, error);
+      }
+    }));
+  })());
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    if (request.mode === "navigate") {
+      const shell = await caches.match("/");
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  const assetBase = new URL(ASSET_BASE, self.location.origin).href;
+
+  // Large, immutable binaries: never re-download once cached
+  if (url.href.startsWith(assetBase) || url.pathname.startsWith("/gesture/")) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+    return;
+  }
+
+  // Hashed build output and images (incl. externally hosted sign images)
+  if (url.pathname.startsWith(BUILD_ASSET_PREFIX) || request.destination === "image") {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+    return;
+  }
+
+  // Pages and everything else same-origin: fresh when online, cached when offline
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,56 @@
+// --- Vendor MediaPipe assets into public/mediapipe ---
+//
+// Usage: npm run assets   (also runs before `dev` and `build`)
+//
+// The WASM runtime is copied from the installed @mediapipe/tasks-vision package so it always
+// matches the JS API version. The models are downloaded once and then reused. Only the hand
+// model is required; the face and pose models back the optional body tracking.
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const MODELS = [
+  { file: "hand_landmarker.task", source: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task" },
+  { file: "face_landmarker.task", source: "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task" },
+  { file: "pose_landmarker_lite.task", source: "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task" }
+];
+
+const root = process.cwd();
+const wasmSource = join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm");
+const targetDir = join(root, "public", "mediapipe");
+const wasmTarget = join(targetDir, "wasm");
+const modelTarget = join(targetDir, "models");
+
+const copyWasm = () => {
+  mkdirSync(wasmTarget, { recursive: true });
+  const files = readdirSync(wasmSource);
+  files.forEach(file => copyFileSync(join(wasmSource, file), join(wasmTarget, file)));
+  console.log(`Copied ${files.length} WASM files to public/mediapipe/wasm`);
+};
+
+const downloadModel = async (file: string, source: string) => {
+  const target = join(modelTarget, file);
+  if (existsSync(target)) {
+    console.log(`${file} already present, skipping download`);
+    return;
+  }
+  mkdirSync(modelTarget, { recursive: true });
+  const response = await fetch(source);
+  if (!response.ok) throw new Error(`${file} download failed: ${response.status} ${response.statusText}`);
+  writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Downloaded ${file} to public/mediapipe/models`);
+};
+
+const main = async () => {
+  copyWasm();
+  for (const { file, source } of MODELS) {
+    try {
+      await downloadModel(file, source);
+    } catch (error) {
+      // Don't block local builds on a flaky network; the app reports "Failed to load AI." instead
+      console.warn(`Warning: ${(error as Error).message}. Place ${file} in public/mediapipe/models manually.`);
+    }
+  }
+};
+
+main();
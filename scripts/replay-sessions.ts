@@ -0,0 +1,118 @@
+// --- Replay labelled landmark sessions through the recognizers ---
+//
+// Usage:
+//   npm run replay -- <sessions-dir> [--dataset custom_ml_dataset.json] [--mode geometric|ml|both]
+//                     [--classifier knn|centroid|logistic|mlp] [--baseline]
+//
+// Every *.json / *.ndjson file in the folder is one session. The ground-truth label comes
+// from the session header, or from the filename prefix (e.g. "A_001.ndjson" -> "A").
+// Without --dataset, the custom model is scored leave-one-session-out on the sessions themselves.
+// --baseline adds the bundled baseline alphabet under the training data, as the app does.
+
+import { readdirSync, readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import {
+  type ClassifierKind, type LabelledPrediction, type LandmarkSession, type Recognizer, type TrainingSample,
+  buildConfusionMatrix, CLASSIFIER_LABELS, createBaselineDataset, createClassifierRecognizer, createGeometricRecognizer, formatConfusionMatrix,
+  overallAccuracy, trainClassifier, parseDataset, parseSession, perClassAccuracy, toFeatureVector
+} from "../lib/recognition";
+
+interface LabelledSession { file: string; label: string; session: LandmarkSession; }
+
+const parseArgs = (argv: string[]) => {
+  const args: { dir?: string; dataset?: string; mode: string; classifier: ClassifierKind; baseline: boolean } = { mode: "both", classifier: "knn", baseline: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--dataset") args.dataset = argv[++i];
+    else if (argv[i] === "--classifier") args.classifier = argv[++i] as ClassifierKind;
+    else if (argv[i] === "--mode") args.mode = argv[++i];
+    else if (argv[i] === "--baseline") args.baseline = true;
+    else if (!args.dir) args.dir = argv[i];
+  }
+  return args;
+};
+
+const loadSessions = (dir: string): LabelledSession[] =>
+  readdirSync(dir)
+    .filter(f => f.endsWith(".json") || f.endsWith(".ndjson"))
+    .sort()
+    .map(file => {
+      const session = parseSession(readFileSync(join(dir, file), "utf8"));
+      const label = session.label ?? basename(file).split(/[_.-]/)[0];
+      return { file, label, session };
+    });
+
+const toTrainingData = (sessions: LabelledSession[]): TrainingSample[] =>
+  sessions.flatMap(({ label, session }) =>
+    session.frames
+      .filter(f => f.landmarks.length > 0)
+      .map(f => ({
+        label,
+        vector: toFeatureVector(f.landmarks, { handedness: f.handedness, otherHand: f.extraHands?.[0]?.landmarks })
+      }))
+  );
+
+const replay = (sessions: LabelledSession[], recognizerFor: (s: LabelledSession) => Recognizer) =>
+  sessions.flatMap(s => {
+    const recognizer = recognizerFor(s);
+    return s.session.frames
+      .filter(f => f.landmarks.length > 0)
+      .map((f): LabelledPrediction => ({
+        expected: s.label,
+        predicted: recognizer.recognize(f.landmarks, {
+          handedness: f.handedness,
+          otherHand: f.extraHands?.[0]?.landmarks
+        })?.label ?? null
+      }));
+  });
+
+const report = (title: string, predictions: LabelledPrediction[]) => {
+  const matrix = buildConfusionMatrix(predictions);
+  console.log(`\n=== ${title} (${predictions.length} frames) ===\n`);
+  perClassAccuracy(matrix).forEach(({ label, correct, total, accuracy }) => {
+    console.log(`${label.padEnd(12)} ${(accuracy * 100).toFixed(1).padStart(6)}%  (${correct}/${total})`);
+  });
+  console.log(`${"OVERALL".padEnd(12)} ${(overallAccuracy(matrix) * 100).toFixed(1).padStart(6)}%\n`);
+  console.log(formatConfusionMatrix(matrix));
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dir) {
+    console.error("Usage: npm run replay -- <sessions-dir> [--dataset file.json] [--mode geometric|ml|both] [--classifier knn|centroid|logistic|mlp] [--baseline]");
+    process.exit(1);
+  }
+
+  const sessions = loadSessions(args.dir);
+  if (sessions.length === 0) {
+    console.error(`No .json / .ndjson sessions found in ${args.dir}`);
+    process.exit(1);
+  }
+  console.log(`Loaded ${sessions.length} sessions from ${args.dir}`);
+
+  if (args.mode === "geometric" || args.mode === "both") {
+    const geometric = createGeometricRecognizer();
+    report("Geometric", replay(sessions, () => geometric));
+  }
+
+  if (args.mode === "ml" || args.mode === "both") {
+    if (!CLASSIFIER_LABELS[args.classifier]) {
+      console.error(`Unknown classifier "${args.classifier}"`);
+      process.exit(1);
+    }
+    const name = CLASSIFIER_LABELS[args.classifier] + (args.baseline ? " + baseline" : "");
+    const baseline = args.baseline ? createBaselineDataset() : [];
+    const train = (samples: TrainingSample[]) => createClassifierRecognizer(trainClassifier([...baseline, ...samples], { kind: args.classifier }));
+    if (args.dataset) {
+      const { samples, migratedFrom } = parseDataset(readFileSync(args.dataset, "utf8"));
+      if (migratedFrom) console.log(`Re-derived ${samples.length} samples from feature schema v${migratedFrom.version}`);
+      const recognizer = train(samples);
+      report(`${name} (${basename(args.dataset)})`, replay(sessions, () => recognizer));
+    } else {
+      report(`${name} (leave-one-session-out)`, replay(sessions, held =>
+        train(toTrainingData(sessions.filter(s => s !== held)))
+      ));
+    }
+  }
+};
+
+main();
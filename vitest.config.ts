@@ -0,0 +1,7 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Same "@/..." imports as tsconfig.json's paths
+  resolve: { alias: { "@": fileURLToPath(new URL(".", import.meta.url)) } }
+});